@@ -139,6 +139,67 @@ test.describe('Slooow Extension E2E', () => {
     await page.close()
   })
 
+  test('rAF patch and isolated layers run inside child frames', async () => {
+    const page = await ctx.newPage()
+    await page.goto(`file://${TEST_PAGES}/09-iframes.html`)
+    await page.waitForTimeout(500)
+
+    const child = page.frames().find((f) => f !== page.mainFrame())
+    expect(child).toBeDefined()
+
+    // Each frame gets its own patch and token
+    const fnName = await child!.evaluate(() => window.requestAnimationFrame.name)
+    expect(fnName).toBe('slooowRAF')
+    const token = await child!.evaluate(() => (window as any).__slooowToken)
+    expect(typeof token).toBe('string')
+
+    // …but only the top frame mounts a toolbar
+    expect(await child!.locator('slooow-toolbar').count()).toBe(0)
+
+    await page.close()
+  })
+
+  test("toolbar's own animations keep real time while the page is slowed", async () => {
+    const page = await ctx.newPage()
+    await page.goto(`file://${TEST_PAGES}/02-css-keyframe.html`)
+    // Restore a visible, enabled 0.1x session — the same state the toolbar persists
+    await page.evaluate(() => {
+      sessionStorage.setItem('__slooow_state', JSON.stringify({ visible: true, enabled: true, speed: 0.1 }))
+    })
+    await page.reload()
+    await page.waitForTimeout(500)
+
+    // Switching presets starts the tab indicator and collapse animations
+    await page.locator('slooow-toolbar').getByText('0.5×').click()
+    await page.waitForTimeout(50)
+
+    // playbackRate reads in the page report the page's intended rate (1), so
+    // the effective rate is measured: currentTime progress per timeline ms
+    const rates = await page.evaluate(async () => {
+      const root = document.querySelector('slooow-toolbar')!.shadowRoot!
+      const all = document.getAnimations()
+      const startTimeline = document.timeline.currentTime as number
+      const start = new Map(all.map((a) => [a, a.currentTime as number]))
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      const elapsed = (document.timeline.currentTime as number) - startTimeline
+
+      const own: number[] = []
+      const pageRates: number[] = []
+      for (const a of all) {
+        if (a.playState !== 'running' || typeof a.currentTime !== 'number') continue
+        const rate = (a.currentTime - start.get(a)!) / elapsed
+        const target = (a.effect as KeyframeEffect | null)?.target
+        ;(target?.getRootNode() === root ? own : pageRates).push(rate)
+      }
+      return { own, pageRates }
+    })
+    expect(rates.pageRates.length).toBeGreaterThan(0)
+    expect(rates.pageRates.every((r) => Math.abs(r - 0.5) < 0.1)).toBe(true)
+    expect(rates.own.every((r) => Math.abs(r - 1) < 0.1)).toBe(true)
+
+    await page.close()
+  })
+
   test('rAF patch is idempotent — __slooowPatched flag prevents double-patch', async () => {
     const page = await ctx.newPage()
     await page.goto(`file://${TEST_PAGES}/01-css-transition.html`)
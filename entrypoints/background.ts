@@ -1,4 +1,7 @@
-// Background service worker — relays toolbar toggle to the active tab's content script.
+// Background service worker — relays toolbar toggle to the active tab's content script,
+// and relays frame messages between the top frame's toolbar and child frames.
+
+import type { ContentToBackground, BackgroundToContent } from '../src/shared/types'
 
 export default defineBackground(() => {
   // chrome.action.onClicked fires when the user clicks the extension icon
@@ -7,4 +10,31 @@ export default defineBackground(() => {
     if (!tab.id) return
     chrome.tabs.sendMessage(tab.id, { type: 'TOGGLE_TOOLBAR' }).catch(() => {})
   })
+
+  // Content scripts can't message other frames directly across origins, so
+  // the SW fans commands out to every frame and routes child reports to frame 0.
+  chrome.runtime.onMessage.addListener((message: ContentToBackground, sender) => {
+    const tabId = sender.tab?.id
+    if (tabId === undefined) return
+
+    const send = (msg: BackgroundToContent, frameId?: number) => {
+      const options = frameId === undefined ? {} : { frameId }
+      chrome.tabs.sendMessage(tabId, msg, options).catch(() => {})
+    }
+
+    switch (message?.type) {
+      case 'FRAME_BROADCAST':
+        send({ type: 'FRAME_COMMAND', command: message.command }, message.frameId)
+        break
+      case 'FRAME_HELLO':
+        send({ type: 'FRAME_HELLO', frameId: sender.frameId ?? 0 }, 0)
+        break
+      case 'FRAME_STATUS':
+        send({ type: 'FRAME_STATUS', frameId: sender.frameId ?? 0, status: message.status }, 0)
+        break
+      case 'FRAME_GOODBYE':
+        send({ type: 'FRAME_GOODBYE', frameId: sender.frameId ?? 0 }, 0)
+        break
+    }
+  })
 })
@@ -1,56 +1,36 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { AnimatePresence, motion } from 'framer-motion'
-import { SlooowSpeed, SLOOOW_SPEEDS } from '../../src/shared/types'
+import { SlooowSpeed, SLOOOW_SPEEDS, DEFAULT_MEDIA_OPTIONS, type MediaOptions, type FrameStatus, type AdapterStatus } from '../../src/shared/types'
+import { formatSpeed } from '../../src/shared/speed'
 import { SubtleTab, SubtleTabItem } from './components/SubtleTab'
 import { Switch } from './components/Switch'
+import { StepControls } from './components/StepControls'
+import { Scrubber } from './components/Scrubber'
+import { SpeedSlider } from './components/SpeedSlider'
 import { AnimHistory, type HistoryGroup } from './components/AnimHistory'
+import { ElementPicker } from './components/ElementPicker'
+import { ExclusionRules } from './components/ExclusionRules'
+import { LiveAnimations } from './components/LiveAnimations'
 import { type AnimInfo } from './components/EasingPanel'
-import { parseEasing } from './lib/easing-parser'
+import { collectAnimations, collectPickedAnimations, sampleLiveAnimations } from './capture'
 import { springs } from './lib/springs'
-
-// ── Animation capture helpers ─────────────────────────────────────────
-
-const KEYFRAME_META = new Set(['offset', 'computedOffset', 'easing', 'composite'])
-
-function extractProperties(effect: KeyframeEffect): string[] {
-  try {
-    const props = new Set<string>()
-    for (const kf of effect.getKeyframes()) {
-      for (const key of Object.keys(kf)) {
-        if (!KEYFRAME_META.has(key)) props.add(key)
-      }
-    }
-    return Array.from(props)
-  } catch {
-    return []
-  }
+import { describeElement } from './lib/css-utils'
+
+// One row per library — the top frame's entry wins over child frames'
+function mergeAdapters(own: AdapterStatus[], frames: FrameStatus[]): AdapterStatus[] {
+  const byId = new Map(own.map((a) => [a.id, a]))
+  frames.forEach((f) => f.adapters.forEach((a) => {
+    if (!byId.has(a.id)) byId.set(a.id, a)
+  }))
+  return Array.from(byId.values())
 }
 
-function extractAnimInfo(anim: Animation): AnimInfo | null {
-  const effect = anim.effect
-  if (!(effect instanceof KeyframeEffect)) return null
-  const timing     = effect.getTiming()
-  const rawEasing  = timing.easing ?? 'ease'
-  const rawDuration = timing.duration
-  const duration: number | 'auto' = typeof rawDuration === 'number' ? rawDuration : 'auto'
-  const delay      = typeof timing.delay === 'number' ? timing.delay : 0
-  const properties = extractProperties(effect)
-  return { rawEasing, easing: parseEasing(rawEasing), duration, delay, properties }
-}
-
-function collectAnimations(target: Element): AnimInfo[] {
-  const seen   = new Set<Animation>()
-  const result: AnimInfo[] = []
-  let el: Element | null = target
-  for (let depth = 0; depth < 5 && el; depth++, el = el.parentElement) {
-    for (const anim of el.getAnimations()) {
-      if (seen.has(anim)) continue
-      seen.add(anim)
-      const info = extractAnimInfo(anim)
-      if (info) result.push(info)
-    }
-  }
-  return result
+function adapterState(a: AdapterStatus): string {
+  const state = a.applied ? 'applied'
+    : a.coveredBy === 'raf' ? 'via rAF'
+    : a.coveredBy === 'date' ? 'via clocks'
+    : 'detected'
+  return a.detail ? `${state} · ${a.detail}` : state
 }
 
 // ─────────────────────────────────────────────────────────────────────
@@ -58,13 +38,47 @@ function collectAnimations(target: Element): AnimInfo[] {
 interface ToolbarProps {
   onSpeedChange: (speed: SlooowSpeed | null) => void
   onStateChange?: (state: { enabled: boolean; speed: SlooowSpeed }) => void
+  onStep?: (deltaMs: number) => void
+  onScrub?: (offsetMs: number) => void
+  onTimeVirtualizationChange?: (enabled: boolean) => void
+  onMediaOptionsChange?: (options: MediaOptions) => void
+  onScopeChange?: (el: Element | null) => void
+  onExclusionRulesChange?: (rules: string[]) => void
   initialEnabled?: boolean
   initialSpeed?: SlooowSpeed
+  initialTimeVirtualized?: boolean
+  initialMediaOptions?: MediaOptions
+  initialExclusionRules?: string[]
 }
 
-export function Toolbar({ onSpeedChange, onStateChange, initialEnabled = false, initialSpeed = 0.25 }: ToolbarProps) {
+export function Toolbar({
+  onSpeedChange,
+  onStateChange,
+  onStep,
+  onScrub,
+  onTimeVirtualizationChange,
+  onMediaOptionsChange,
+  onScopeChange,
+  onExclusionRulesChange,
+  initialEnabled = false,
+  initialSpeed = 0.25,
+  initialTimeVirtualized = false,
+  initialMediaOptions = DEFAULT_MEDIA_OPTIONS,
+  initialExclusionRules = [],
+}: ToolbarProps) {
   const [enabled, setEnabled] = useState(initialEnabled)
   const [speed, setSpeed]     = useState<SlooowSpeed>(initialSpeed)
+  const [timeVirtualized, setTimeVirtualized] = useState(initialTimeVirtualized)
+  const [mediaOptions, setMediaOptions] = useState(initialMediaOptions)
+  // <video>/<audio> in this frame and in child frames — media options stay hidden without any
+  const [mediaCount, setMediaCount]       = useState(0)
+  const [frameMediaCount, setFrameMediaCount] = useState(0)
+  const [animationCount, setAnimationCount] = useState(0)
+  // Detected animation libraries — this frame's and child frames'
+  const [adapters, setAdapters]           = useState<AdapterStatus[]>([])
+  const [frameStatuses, setFrameStatuses] = useState<FrameStatus[]>([])
+  // Scrub offset (ms) — the session lives while frozen; any other speed ends it
+  const [scrubOffset, setScrubOffset] = useState(0)
 
   // History ring — persists across enable/disable cycles, max 10 entries
   const [historyGroups, setHistoryGroups] = useState<HistoryGroup[]>([])
@@ -73,6 +87,14 @@ export function Toolbar({ onSpeedChange, onStateChange, initialEnabled = false,
   // Mirror of historyGroups readable synchronously inside event callbacks
   const historyGroupsRef = useRef<HistoryGroup[]>([])
 
+  // Inspect mode — picking follows the pointer, a click locks onto an element
+  const [picking, setPicking] = useState(false)
+  const [pickedElement, setPickedElement] = useState<Element | null>(null)
+  // Scoped slow-motion — only this element's subtree is slowed
+  const [scopeElement, setScopeElement] = useState<Element | null>(null)
+  // "Never slow" selectors for this origin
+  const [exclusionRules, setExclusionRules] = useState(initialExclusionRules)
+
   // Drag state
   const [position, setPosition] = useState<{ top: number; right: number }>({ top: 16, right: 16 })
   const dragging  = useRef(false)
@@ -86,22 +108,50 @@ export function Toolbar({ onSpeedChange, onStateChange, initialEnabled = false,
     return () => document.removeEventListener('slooow:set-enabled', handler)
   }, [])
 
-  // History capture — pointermove (hover settle) + pointerdown (click), only while enabled
+  // Status snapshots from index.tsx — media counts and the adapter list
   useEffect(() => {
-    if (!enabled) return
+    const handler = (e: Event) => {
+      const detail = (e as CustomEvent).detail as { mediaCount?: number; animationCount?: number; adapters?: AdapterStatus[]; frames?: FrameStatus[] }
+      if (typeof detail.mediaCount === 'number') setMediaCount(detail.mediaCount)
+      if (typeof detail.animationCount === 'number') setAnimationCount(detail.animationCount)
+      if (detail.adapters) setAdapters(detail.adapters)
+      if (detail.frames) {
+        setFrameStatuses(detail.frames)
+        setFrameMediaCount(detail.frames.reduce((n, f) => n + f.mediaCount, 0))
+      }
+    }
+    document.addEventListener('slooow:status', handler)
+    return () => document.removeEventListener('slooow:status', handler)
+  }, [])
+
+  // Exit animation in AnimHistory is 180 ms — wait 200 ms before adding
+  // the new item so the oldest item's exit finishes first.
+  const pushHistoryGroup = useCallback((anims: AnimInfo[]): number => {
+    const EXIT_MS = 200
+    const id = ++historyIdRef.current
+    if (historyGroupsRef.current.length >= 10) {
+      // At capacity: evict oldest first, then add new item after exit finishes
+      setHistoryGroups(prev => prev.slice(1))
+      setTimeout(() => setHistoryGroups(prev => [...prev, { id, anims }]), EXIT_MS)
+    } else {
+      setHistoryGroups(prev => [...prev, { id, anims }])
+    }
+    return id
+  }, [])
+
+  // History capture — pointermove (hover settle) + pointerdown (click), only
+  // while enabled and not inspecting (the picker captures explicitly)
+  useEffect(() => {
+    if (!enabled || picking) return
 
     // Dedup: skip if the same animation fingerprint was captured in the last 500 ms
     let lastFp  = ''
     let lastFpTs = 0
 
     function animFingerprint(anims: AnimInfo[]): string {
-      return anims.map(a => `${a.properties.join(',')}|${a.duration}|${a.rawEasing}`).join(';')
+      return anims.map(a => `${a.name ?? ''}|${a.properties.join(',')}|${a.duration}|${a.rawEasing}|${a.keyframes.map(k => k.rawEasing).join(',')}`).join(';')
     }
 
-    // Exit animation in AnimHistory is 180 ms — wait 200 ms before adding
-    // the new item so the oldest item's exit finishes first.
-    const EXIT_MS = 200
-
     function captureFromTarget(target: Element) {
       const anims = collectAnimations(target)
       if (!anims.length) return
@@ -110,14 +160,7 @@ export function Toolbar({ onSpeedChange, onStateChange, initialEnabled = false,
       if (fp === lastFp && now - lastFpTs < 500) return
       lastFp  = fp
       lastFpTs = now
-      const id = ++historyIdRef.current
-      if (historyGroupsRef.current.length >= 10) {
-        // At capacity: evict oldest first, then add new item after exit finishes
-        setHistoryGroups(prev => prev.slice(1))
-        setTimeout(() => setHistoryGroups(prev => [...prev, { id, anims }]), EXIT_MS)
-      } else {
-        setHistoryGroups(prev => [...prev, { id, anims }])
-      }
+      pushHistoryGroup(anims)
     }
 
     // Hover: capture after pointer settles on a new element for 80 ms
@@ -152,7 +195,7 @@ export function Toolbar({ onSpeedChange, onStateChange, initialEnabled = false,
       document.removeEventListener('pointerdown', handlePointerDown)
       if (captureTimer) clearTimeout(captureTimer)
     }
-  }, [enabled])
+  }, [enabled, picking, pushHistoryGroup])
 
   // Notify parent of current effective speed and full state whenever they change
   useEffect(() => {
@@ -160,15 +203,80 @@ export function Toolbar({ onSpeedChange, onStateChange, initialEnabled = false,
     onStateChange?.({ enabled, speed })
   }, [enabled, speed, onSpeedChange, onStateChange])
 
+  useEffect(() => {
+    if (!enabled || speed !== 0) setScrubOffset(0)
+  }, [enabled, speed])
+
   const handleToggle = useCallback(() => {
     setEnabled((prev) => !prev)
   }, [])
 
+  const handleTimeVirtualizationToggle = useCallback(() => {
+    const next = !timeVirtualized
+    setTimeVirtualized(next)
+    onTimeVirtualizationChange?.(next)
+  }, [timeVirtualized, onTimeVirtualizationChange])
+
+  const handleMediaOption = useCallback((key: keyof MediaOptions) => {
+    const next = { ...mediaOptions, [key]: !mediaOptions[key] }
+    setMediaOptions(next)
+    onMediaOptionsChange?.(next)
+  }, [mediaOptions, onMediaOptionsChange])
+
   const handleSpeedSelect = useCallback((newSpeed: SlooowSpeed) => {
     setSpeed(newSpeed)
     if (!enabled) setEnabled(true)
   }, [enabled])
 
+  const handleStep = useCallback((deltaMs: number) => {
+    setScrubOffset(0) // stepping ends the scrub session
+    onStep?.(deltaMs)
+  }, [onStep])
+
+  // Scrubbing freezes the page first; the parent starts the session on first seek
+  const handleScrub = useCallback((offsetMs: number) => {
+    handleSpeedSelect(0)
+    setScrubOffset(offsetMs)
+    onScrub?.(offsetMs)
+  }, [handleSpeedSelect, onScrub])
+
+  const handlePickerToggle = useCallback(() => {
+    if (picking || pickedElement) {
+      setPicking(false)
+      setPickedElement(null)
+    } else {
+      setPicking(true)
+    }
+  }, [picking, pickedElement])
+
+  const handleLock = useCallback((el: Element) => {
+    setPicking(false)
+    setPickedElement(el)
+    const anims = collectPickedAnimations(el)
+    if (anims.length) setOpenGroupId(pushHistoryGroup(anims))
+  }, [pushHistoryGroup])
+
+  const handlePickerExit = useCallback(() => {
+    setPicking(false)
+    setPickedElement(null)
+  }, [])
+
+  const handleScope = useCallback((el: Element | null) => {
+    setScopeElement(el)
+    onScopeChange?.(el)
+  }, [onScopeChange])
+
+  // Live list selection highlights its target the same way a picked lock does
+  const handleLiveSelect = useCallback((target: Element | null) => {
+    setPicking(false)
+    setPickedElement(target)
+  }, [])
+
+  const handleExclusionRules = useCallback((rules: string[]) => {
+    setExclusionRules(rules)
+    onExclusionRulesChange?.(rules)
+  }, [onExclusionRulesChange])
+
   // Pointer-based drag
   const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
     if ((e.target as HTMLElement).closest('button')) return
@@ -193,15 +301,28 @@ export function Toolbar({ onSpeedChange, onStateChange, initialEnabled = false,
     ;(e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId)
   }
 
+  const libraries = mergeAdapters(adapters, frameStatuses)
+
   // Keep ref in sync so capture callbacks can read current length synchronously
   historyGroupsRef.current = historyGroups
 
+  const shadowHost = (toolbarRef.current?.getRootNode() as ShadowRoot | undefined)?.host ?? null
+
   return (
     <div
       ref={toolbarRef}
       className="toolbar"
       style={{ top: position.top, right: position.right }}
     >
+      {/* Inspect-mode highlight — fixed to the viewport, outside the toolbar box */}
+      <ElementPicker
+        picking={picking}
+        locked={pickedElement}
+        host={shadowHost}
+        onLock={handleLock}
+        onExit={handlePickerExit}
+      />
+
       {/* Drag handle / header row */}
       <div
         className="header"
@@ -210,6 +331,35 @@ export function Toolbar({ onSpeedChange, onStateChange, initialEnabled = false,
         onPointerUp={onPointerUp}
       >
         <span className="logo">Slooow</span>
+        {scopeElement && (
+          <button
+            className="scope-chip"
+            onClick={() => handleScope(null)}
+            title="Slowing only this element — click to slow the whole page again"
+            aria-label={`Clear scope ${describeElement(scopeElement)}`}
+          >
+            <span className="scope-chip-label">{describeElement(scopeElement)}</span>
+            <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" aria-hidden="true">
+              <line x1="6" y1="6" x2="18" y2="18" />
+              <line x1="18" y1="6" x2="6" y2="18" />
+            </svg>
+          </button>
+        )}
+        <button
+          className={`easing-nav-btn picker-btn${picking || pickedElement ? ' is-active' : ''}`}
+          onClick={handlePickerToggle}
+          aria-pressed={picking || pickedElement !== null}
+          aria-label="Inspect element"
+          title={picking ? 'Click an element to inspect it · Esc to exit' : 'Inspect element'}
+        >
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+            <circle cx="12" cy="12" r="7" />
+            <line x1="12" y1="2" x2="12" y2="6" />
+            <line x1="12" y1="18" x2="12" y2="22" />
+            <line x1="2" y1="12" x2="6" y2="12" />
+            <line x1="18" y1="12" x2="22" y2="12" />
+          </svg>
+        </button>
         <Switch
           checked={enabled}
           onToggle={handleToggle}
@@ -231,6 +381,7 @@ export function Toolbar({ onSpeedChange, onStateChange, initialEnabled = false,
             style={{ overflow: 'hidden' }}
           >
             <div style={{ paddingTop: 16 }}>
+              {/* Presets — a custom rate from the slider leaves no tab selected */}
               <SubtleTab
                 selectedIndex={SLOOOW_SPEEDS.indexOf(speed)}
                 onSelect={(idx) => handleSpeedSelect(SLOOOW_SPEEDS[idx])}
@@ -240,11 +391,103 @@ export function Toolbar({ onSpeedChange, onStateChange, initialEnabled = false,
                   <SubtleTabItem
                     key={s}
                     index={idx}
-                    label={s === 1 ? '1×' : `${s}×`}
+                    label={formatSpeed(s)}
                   />
                 ))}
               </SubtleTab>
 
+              <SpeedSlider value={speed} onChange={handleSpeedSelect} />
+
+              {/* Frame-by-frame stepping — only meaningful while frozen at 0x */}
+              <AnimatePresence initial={false}>
+                {speed === 0 && onStep && (
+                  <motion.div
+                    initial={{ height: 0, opacity: 0 }}
+                    animate={{ height: 'auto', opacity: 1 }}
+                    exit={{ height: 0, opacity: 0 }}
+                    transition={{
+                      height: springs.moderate,
+                      opacity: { type: 'tween', duration: 0.15, ease: 'easeInOut' },
+                    }}
+                    style={{ overflow: 'hidden' }}
+                  >
+                    <StepControls onStep={handleStep} />
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              {onScrub && <Scrubber value={scrubOffset} onChange={handleScrub} />}
+
+              {onTimeVirtualizationChange && (
+                <div className="toolbar-option">
+                  <Switch
+                    label="Virtualize clocks"
+                    checked={timeVirtualized}
+                    onToggle={handleTimeVirtualizationToggle}
+                    title="Also slow performance.now(), Date.now() and timers — for loops that ignore rAF timestamps"
+                  />
+                </div>
+              )}
+
+              {/* Scope to the inspected element — rAF and clocks can't be scoped */}
+              {onScopeChange && (pickedElement || scopeElement) && (
+                <div className="toolbar-option">
+                  <Switch
+                    label="Only slow picked element"
+                    checked={scopeElement !== null}
+                    onToggle={() => handleScope(scopeElement ? null : pickedElement)}
+                    title="CSS, WAAPI and GSAP animations outside the element keep running at normal speed"
+                  />
+                  {scopeElement && (
+                    <p className="scope-warning">
+                      rAF loops, clocks, media and other libraries stay page-wide
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <LiveAnimations
+                count={animationCount}
+                sample={sampleLiveAnimations}
+                onSelect={handleLiveSelect}
+              />
+
+              {onExclusionRulesChange && (
+                <ExclusionRules
+                  rules={exclusionRules}
+                  onChange={handleExclusionRules}
+                  suggestion={pickedElement ? describeElement(pickedElement) : undefined}
+                />
+              )}
+
+              {onMediaOptionsChange && mediaCount + frameMediaCount > 0 && (
+                <div className="toolbar-option">
+                  <Switch
+                    label="Mute media"
+                    checked={mediaOptions.mute}
+                    onToggle={() => handleMediaOption('mute')}
+                    title="Silence <video> and <audio> while slowed"
+                  />
+                  <Switch
+                    label="Keep pitch"
+                    checked={mediaOptions.preservePitch}
+                    onToggle={() => handleMediaOption('preservePitch')}
+                    title="Time-stretch slowed audio instead of letting its pitch drop"
+                  />
+                </div>
+              )}
+
+              {/* Detected libraries — "via rAF"/"via clocks" means a shared clock slows it */}
+              {libraries.length > 0 && (
+                <ul className="adapter-list">
+                  {libraries.map((a) => (
+                    <li key={a.id}>
+                      <span className="adapter-name">{a.name}</span>
+                      <span className="adapter-state">{adapterState(a)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           </motion.div>
         )}
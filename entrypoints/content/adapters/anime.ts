@@ -0,0 +1,29 @@
+// Library adapter — anime.js (v3 global build, detection only)
+// anime.speed is a global multiplier on engine time, but the engine already
+// advances by the rAF timestamp, so the rAF layer is what slows it; scaling
+// anime.speed as well would slow it twice. Listed for the status only.
+
+import type { LibraryAdapter } from './types'
+
+interface AnimeGlobal {
+  speed: number
+  running?: unknown[]
+}
+
+function getAnime(): AnimeGlobal | null {
+  const anime = (window as any).anime
+  return typeof anime?.speed === 'number' ? anime : null
+}
+
+export const animeAdapter: LibraryAdapter = {
+  id: 'anime',
+  name: 'anime.js',
+  clock: 'raf',
+  detect: () => getAnime() !== null,
+  apply: () => false,
+  reset: () => {},
+  describe: () => {
+    const running = getAnime()?.running
+    return Array.isArray(running) ? `${running.length} running` : undefined
+  },
+}
@@ -0,0 +1,200 @@
+// Library adapter — GSAP Global Timeline
+// Covers: all GSAP v2 (TweenMax) and v3 (gsap) tweens and timelines.
+// One call to globalTimeline.timeScale() affects every animation GSAP manages;
+// a scope instead scales the tweens getTweensOf() finds in the subtree.
+// GSAP's ticker measures time with its own captured Date.now, not the rAF
+// timestamp — so only time virtualization reaches it, hence clock 'date'.
+
+import type { LibraryAdapter, LibraryAnimation } from './types'
+import { excludedElements } from '../exclusions'
+
+// Captured once on first activation. Stored so "off" restores the site's
+// original timeScale (which may not be 1 — e.g. some sites set it to 0.8 or 2).
+let originalGSAPTimeScale: number | null = null
+
+interface GSAPTimeline {
+  timeScale: (n?: number) => number
+  totalTime: (n?: number) => number
+}
+
+type GSAPTween = Pick<GSAPTimeline, 'timeScale'>
+
+function getGSAP(): any {
+  return (window as any).gsap ?? (window as any).TweenMax ?? null
+}
+
+function getGSAPTimeline(): GSAPTimeline | null {
+  return getGSAP()?.globalTimeline ?? null
+}
+
+// Tweens currently scaled by a scope, with the timeScale each had before
+const scopedTweens = new Map<GSAPTween, number>()
+
+function restoreScopedTweens(): void {
+  scopedTweens.forEach((original, tween) => tween.timeScale(original))
+  scopedTweens.clear()
+}
+
+// Tweens on rule-excluded elements, with the timeScale each had before
+// being sped back up to cancel the global slow-down. At 0x there's nothing
+// to cancel against — the frozen global timeline holds them too.
+const excludedTweens = new Map<GSAPTween, number>()
+
+function restoreExcludedTweens(): void {
+  excludedTweens.forEach((original, tween) => tween.timeScale(original))
+  excludedTweens.clear()
+}
+
+function compensateExcludedTweens(speed: number): void {
+  const gsap = getGSAP()
+  const elements = excludedElements()
+  const tweens: GSAPTween[] = speed > 0 && elements.length && typeof gsap?.getTweensOf === 'function'
+    ? gsap.getTweensOf(elements)
+    : []
+  const current = new Set(tweens)
+  excludedTweens.forEach((original, tween) => {
+    if (current.has(tween)) return
+    tween.timeScale(original)
+    excludedTweens.delete(tween)
+  })
+  tweens.forEach((tween) => {
+    if (!excludedTweens.has(tween)) excludedTweens.set(tween, tween.timeScale())
+    tween.timeScale(excludedTweens.get(tween)! / speed)
+  })
+}
+
+function detectGSAP(): boolean {
+  return getGSAPTimeline() !== null
+}
+
+function applyGSAP(speed: number): boolean {
+  const tl = getGSAPTimeline()
+  if (!tl) return false
+  restoreScopedTweens()
+
+  if (originalGSAPTimeScale === null) {
+    originalGSAPTimeScale = tl.timeScale() // capture baseline on first touch
+  }
+
+  tl.timeScale(originalGSAPTimeScale * speed)
+  compensateExcludedTweens(speed)
+  return true
+}
+
+// The global timeline stays at its baseline; only tweens targeting the root
+// or its descendants are scaled. Tweens that left the scope are restored.
+function applyGSAPScoped(speed: number, root: Element): boolean {
+  const gsap = getGSAP()
+  if (typeof gsap?.getTweensOf !== 'function') return false
+  resetGlobalTimeScale()
+
+  restoreExcludedTweens()
+
+  const excluded = new Set(excludedElements())
+  const elements = [root, ...Array.from(root.querySelectorAll('*'))].filter((el) => !excluded.has(el))
+  const tweens: GSAPTween[] = gsap.getTweensOf(elements)
+  const inScope = new Set(tweens)
+  scopedTweens.forEach((original, tween) => {
+    if (inScope.has(tween)) return
+    tween.timeScale(original)
+    scopedTweens.delete(tween)
+  })
+  tweens.forEach((tween) => {
+    if (!scopedTweens.has(tween)) scopedTweens.set(tween, tween.timeScale())
+    tween.timeScale(scopedTweens.get(tween)! * speed)
+  })
+  return true
+}
+
+function resetGlobalTimeScale(): void {
+  if (originalGSAPTimeScale === null) return
+  getGSAPTimeline()?.timeScale(originalGSAPTimeScale)
+  originalGSAPTimeScale = null
+}
+
+function resetGSAP(): void {
+  resetGlobalTimeScale()
+  restoreScopedTweens()
+  restoreExcludedTweens()
+}
+
+// Seeks the global timeline by `deltaMs` of page time. Works while frozen:
+// at timeScale(0) GSAP stops ticking the root but totalTime() still renders.
+// Stepping back can't revive tweens GSAP already auto-removed on completion.
+function stepGSAP(deltaMs: number): void {
+  const tl = getGSAPTimeline()
+  if (!tl) return
+  const baseline = originalGSAPTimeScale ?? tl.timeScale()
+  tl.totalTime(Math.max(0, tl.totalTime() + (deltaMs / 1000) * baseline))
+}
+
+// Scrub session: global timeline totalTime (seconds) when scrubbing began
+let scrubBaseTime: number | null = null
+
+function seekGSAP(offsetMs: number): void {
+  const tl = getGSAPTimeline()
+  if (!tl) return
+  if (scrubBaseTime === null) scrubBaseTime = tl.totalTime()
+  const baseline = originalGSAPTimeScale ?? tl.timeScale()
+  tl.totalTime(Math.max(0, scrubBaseTime + (offsetMs / 1000) * baseline))
+}
+
+function endScrubGSAP(): void {
+  scrubBaseTime = null
+}
+
+// Tween vars that configure the tween rather than name an animated property
+const SPECIAL_VARS = new Set([
+  'duration', 'delay', 'ease', 'repeat', 'repeatDelay', 'yoyo', 'yoyoEase', 'stagger',
+  'paused', 'reversed', 'overwrite', 'immediateRender', 'lazy', 'inherit', 'defaults',
+  'id', 'data', 'callbackScope', 'runBackwards', 'startAt', 'keyframes', 'autoRound', 'css',
+])
+
+function tweenProperties(vars: Record<string, unknown>): string[] {
+  // GSAP 2 nests CSS properties under vars.css
+  const source = (vars.css && typeof vars.css === 'object' ? vars.css : vars) as Record<string, unknown>
+  return Object.keys(source).filter((key) =>
+    !SPECIAL_VARS.has(key) && !key.startsWith('on') && typeof source[key] !== 'function')
+}
+
+// Active tweens anywhere under the global timeline. Rates include the global
+// timeScale but not intermediate timelines'.
+function listGSAPTweens(): LibraryAnimation[] {
+  const tl = getGSAPTimeline() as any
+  if (typeof tl?.getChildren !== 'function') return []
+  const globalRate = tl.timeScale()
+  return tl.getChildren(true, true, false)
+    .filter((tween: any) => tween.isActive?.())
+    .map((tween: any): LibraryAnimation => {
+      const vars = tween.vars ?? {}
+      const targets: unknown[] = tween.targets?.() ?? [tween.target]
+      const repeat: number = vars.repeat ?? 0
+      return {
+        key: tween,
+        target: targets.find((t): t is Element => t instanceof Element) ?? null,
+        properties: tweenProperties(vars),
+        easing: typeof vars.ease === 'string' ? vars.ease : 'power1.out', // GSAP 3 default
+        duration: tween.duration() * 1000,
+        delay: tween.delay() * 1000,
+        iterations: repeat < 0 ? Infinity : repeat + 1,
+        alternate: !!vars.yoyo,
+        progress: tween.progress(),
+        rate: tween.timeScale() * globalRate,
+        playState: tween.paused() ? 'paused' : 'running',
+      }
+    })
+}
+
+export const gsapAdapter: LibraryAdapter = {
+  id: 'gsap',
+  name: 'GSAP',
+  clock: 'date',
+  detect: detectGSAP,
+  apply: applyGSAP,
+  reset: resetGSAP,
+  applyScoped: applyGSAPScoped,
+  animations: listGSAPTweens,
+  step: stepGSAP,
+  seek: seekGSAP,
+  endScrub: endScrubGSAP,
+}
@@ -0,0 +1,126 @@
+// Library adapters — registry
+// Every animation library with its own speed knob registers here, and the
+// coordinator in content/index.tsx drives them all through this module.
+//
+// Libraries timed by a clock Slooow already scales get 1x: rAF-timestamp
+// libraries while the rAF patch is in place, Date.now() libraries once time
+// is virtualized. Scaling their own speed as well would slow them twice.
+
+import type { AdapterStatus } from '../../../src/shared/types'
+import type { LibraryAdapter, LibraryAnimation } from './types'
+import { gsapAdapter } from './gsap'
+import { lottieAdapter } from './lottie'
+import { animeAdapter } from './anime'
+import { velocityAdapter } from './velocity'
+import { pixiAdapter } from './pixi'
+import { theatreAdapter } from './theatre'
+
+export type { LibraryAdapter, LibraryAnimation } from './types'
+
+export interface ClockCoverage {
+  rafIntercepted: boolean
+  timeVirtualized: boolean
+}
+
+const adapters: LibraryAdapter[] = [
+  gsapAdapter,
+  lottieAdapter,
+  animeAdapter,
+  velocityAdapter,
+  pixiAdapter,
+  theatreAdapter,
+]
+
+// Ids of adapters whose own speed control is currently scaled
+const applied = new Set<string>()
+
+let pollInterval: ReturnType<typeof setInterval> | null = null
+
+function coveredBy(adapter: LibraryAdapter, env: ClockCoverage): AdapterStatus['coveredBy'] {
+  if (adapter.clock === 'raf' && env.rafIntercepted) return 'raf'
+  if (adapter.clock === 'date' && env.timeVirtualized) return 'date'
+  return null
+}
+
+// Adapters that need seeking while frozen — the rest move with their clock
+function uncovered(env: ClockCoverage): LibraryAdapter[] {
+  return adapters.filter((a) => coveredBy(a, env) === null && a.detect())
+}
+
+// With a scope, adapters that can target elements only slow that subtree
+export function applyAdapters(speed: number, env: ClockCoverage, scope: Element | null = null): void {
+  adapters.forEach((adapter) => {
+    if (!adapter.detect()) return
+    const covered = coveredBy(adapter, env) !== null
+    const scaled = scope && adapter.applyScoped && !covered
+      ? adapter.applyScoped(speed, scope)
+      : adapter.apply(covered ? 1 : speed)
+    if (scaled && !covered) applied.add(adapter.id)
+    else applied.delete(adapter.id)
+  })
+}
+
+export function resetAdapters(): void {
+  adapters.forEach((adapter) => {
+    if (adapter.detect()) adapter.reset()
+  })
+  applied.clear()
+}
+
+export function stepAdapters(deltaMs: number, env: ClockCoverage): void {
+  uncovered(env).forEach((a) => a.step?.(deltaMs))
+}
+
+export function seekAdapters(offsetMs: number, env: ClockCoverage): void {
+  uncovered(env).forEach((a) => a.seek?.(offsetMs))
+}
+
+export function endScrubAdapters(): void {
+  adapters.forEach((a) => a.endScrub?.())
+}
+
+export function describeAdapters(env: ClockCoverage): AdapterStatus[] {
+  return adapters.filter((a) => a.detect()).map((a) => ({
+    id: a.id,
+    name: a.name,
+    applied: applied.has(a.id),
+    coveredBy: coveredBy(a, env),
+    detail: a.describe?.(),
+  }))
+}
+
+// Running animations of every detected library that can list them
+export function listAdapterAnimations(): Array<LibraryAnimation & { library: string }> {
+  return adapters
+    .filter((a) => a.animations && a.detect())
+    .flatMap((a) => a.animations!().map((anim) => ({ ...anim, library: a.id })))
+}
+
+// Poll for up to 5 seconds after content script runs. Needed because sites
+// lazy-load libraries via dynamic import or script loaders. Calls back each
+// time another adapter turns up.
+export function startAdapterPolling(onDetected: () => void): void {
+  stopAdapterPolling()
+  let known = adapters.filter((a) => a.detect()).length
+
+  let elapsed = 0
+  const POLL_INTERVAL = 250
+  const MAX_WAIT = 5000
+
+  pollInterval = setInterval(() => {
+    elapsed += POLL_INTERVAL
+    const count = adapters.filter((a) => a.detect()).length
+    if (count > known) {
+      known = count
+      onDetected()
+    }
+    if (elapsed >= MAX_WAIT || count === adapters.length) stopAdapterPolling()
+  }, POLL_INTERVAL)
+}
+
+export function stopAdapterPolling(): void {
+  if (pollInterval !== null) {
+    clearInterval(pollInterval)
+    pollInterval = null
+  }
+}
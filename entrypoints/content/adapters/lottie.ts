@@ -0,0 +1,40 @@
+// Library adapter — Lottie / bodymovin (detection only)
+// Covers: lottie-web animations (window.lottie / window.bodymovin) and the
+// <lottie-player> / <dotlottie-player> web components, which wrap lottie-web.
+// lottie-web advances frames by the rAF timestamp delta, so the rAF layer is
+// what slows it; scaling setSpeed() as well would slow it twice. Listed for
+// the status only.
+
+import type { LibraryAdapter } from './types'
+
+interface LottieLib {
+  getRegisteredAnimations?: () => unknown[]
+}
+
+const PLAYER_SELECTOR = 'lottie-player, dotlottie-player'
+
+function getLottieLib(): LottieLib | null {
+  return (window as any).lottie ?? (window as any).bodymovin ?? null
+}
+
+function countLottie(): number {
+  const animations = getLottieLib()?.getRegisteredAnimations?.() ?? []
+  return animations.length + document.querySelectorAll(PLAYER_SELECTOR).length
+}
+
+function detectLottie(): boolean {
+  return getLottieLib() !== null || document.querySelector(PLAYER_SELECTOR) !== null
+}
+
+export const lottieAdapter: LibraryAdapter = {
+  id: 'lottie',
+  name: 'Lottie',
+  clock: 'raf',
+  detect: detectLottie,
+  apply: () => false,
+  reset: () => {},
+  describe: () => {
+    const n = countLottie()
+    return `${n} animation${n === 1 ? '' : 's'}`
+  },
+}
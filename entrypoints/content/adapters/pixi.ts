@@ -0,0 +1,20 @@
+// Library adapter — PixiJS shared ticker (detection only)
+// The shared ticker (v5+ PIXI.Ticker, v4 PIXI.ticker) is fed rAF timestamps,
+// so the rAF layer is what slows it; scaling Ticker.shared.speed as well
+// would slow it twice. Listed for the status only.
+
+import type { LibraryAdapter } from './types'
+
+function getSharedTicker(): unknown {
+  const PIXI = (window as any).PIXI
+  return PIXI?.Ticker?.shared ?? PIXI?.ticker?.shared ?? null
+}
+
+export const pixiAdapter: LibraryAdapter = {
+  id: 'pixi',
+  name: 'PixiJS',
+  clock: 'raf',
+  detect: () => getSharedTicker() !== null,
+  apply: () => false,
+  reset: () => {},
+}
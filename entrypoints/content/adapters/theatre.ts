@@ -0,0 +1,20 @@
+// Library adapter — Theatre.js (detection only)
+// Sequences are played with a per-call rate (sequence.play({ rate })) and
+// there's no global speed to scale. Playback is driven by Theatre's rAF
+// driver, so the rAF layer is what slows it — listed for the status only.
+
+import type { LibraryAdapter } from './types'
+
+function detectTheatre(): boolean {
+  const w = window as any
+  return w.__TheatreJS_CoreBundle !== undefined || w.__TheatreJS_StudioBundle !== undefined
+}
+
+export const theatreAdapter: LibraryAdapter = {
+  id: 'theatre',
+  name: 'Theatre.js',
+  clock: 'raf',
+  detect: detectTheatre,
+  apply: () => false,
+  reset: () => {},
+}
@@ -0,0 +1,37 @@
+import type { AdapterClock } from '../../../src/shared/types'
+
+// One animation a library is running right now — for the live list
+export interface LibraryAnimation {
+  key: object              // stable identity across samples (the tween itself)
+  target: Element | null
+  properties: string[]     // camelCase
+  easing: string           // library ease name, e.g. 'power2.out'
+  duration: number         // ms, one iteration
+  delay: number            // ms
+  iterations: number       // Infinity for endless repeats
+  alternate: boolean       // yoyo
+  progress: number         // 0–1 within the current iteration
+  rate: number             // effective rate, global scaling included
+  playState: AnimationPlayState
+}
+
+// One animation library with its own speed control. Adapters only know
+// their library; the registry in ./index decides which speed they get.
+export interface LibraryAdapter {
+  id: string
+  name: string
+  clock: AdapterClock
+  detect: () => boolean
+  // Returns false when the library has no speed control to scale (status only)
+  apply: (speed: number) => boolean
+  reset: () => void
+  // Scoped slow-motion — slows only the library's animations inside `root`.
+  // Adapters without it stay page-wide while a scope is set.
+  applyScoped?: (speed: number, root: Element) => boolean
+  describe?: () => string | undefined // extra status detail, e.g. "3 players"
+  animations?: () => LibraryAnimation[] // running animations, if the library can list them
+  // Optional seeking while frozen — moves the library by page time
+  step?: (deltaMs: number) => void
+  seek?: (offsetMs: number) => void
+  endScrub?: () => void
+}
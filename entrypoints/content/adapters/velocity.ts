@@ -0,0 +1,21 @@
+// Library adapter — Velocity.js (detection only)
+// Its tick reads the rAF timestamp, so the rAF layer is what slows it —
+// running animations included, which Velocity.mock (new animations only)
+// can't reach. Scaling mock as well would slow it twice. Listed for the
+// status only.
+
+import type { LibraryAdapter } from './types'
+
+function getVelocity(): unknown {
+  const w = window as any
+  return w.Velocity ?? w.jQuery?.Velocity ?? null
+}
+
+export const velocityAdapter: LibraryAdapter = {
+  id: 'velocity',
+  name: 'Velocity',
+  clock: 'raf',
+  detect: () => getVelocity() !== null,
+  apply: () => false,
+  reset: () => {},
+}
@@ -21,3 +21,27 @@ export function sendSetSpeed(speed: number): void {
     '*',
   )
 }
+
+export function sendStep(deltaMs: number): void {
+  window.postMessage(
+    {
+      tag: SLOOOW_TAG,
+      type: 'STEP',
+      deltaMs,
+      token: getToken(),
+    },
+    '*',
+  )
+}
+
+export function sendSetTimeVirtualization(enabled: boolean): void {
+  window.postMessage(
+    {
+      tag: SLOOOW_TAG,
+      type: 'SET_TIME_VIRTUALIZATION',
+      enabled,
+      token: getToken(),
+    },
+    '*',
+  )
+}
@@ -0,0 +1,177 @@
+// Animation capture — turns live Animation objects into the AnimInfo
+// snapshots the history and live list render. Runs in the top frame only.
+
+import type { AnimInfo } from './components/EasingPanel'
+import { parseEasing } from './lib/easing-parser'
+import { KEYFRAME_META, captureKeyframes, type KeyframeInfo } from './lib/keyframes'
+import { describeElement } from './lib/css-utils'
+import { pageAnimations } from './waapi'
+import { listAdapterAnimations, type LibraryAnimation } from './adapters'
+import { sourceOf } from './replay'
+
+function extractProperties(effect: KeyframeEffect): string[] {
+  try {
+    const props = new Set<string>()
+    for (const kf of effect.getKeyframes()) {
+      for (const key of Object.keys(kf)) {
+        if (!KEYFRAME_META.has(key)) props.add(key)
+      }
+    }
+    return Array.from(props)
+  } catch {
+    return []
+  }
+}
+
+function extractKeyframes(effect: KeyframeEffect): KeyframeInfo[] {
+  try {
+    return captureKeyframes(effect.getKeyframes())
+  } catch {
+    return []
+  }
+}
+
+// CSS animations and transitions are Animation subclasses; anything else
+// came from element.animate() or new Animation()
+function extractKind(anim: Animation): Pick<AnimInfo, 'kind' | 'name'> {
+  if (typeof CSSAnimation !== 'undefined' && anim instanceof CSSAnimation) {
+    return { kind: 'css-animation', name: anim.animationName }
+  }
+  if (typeof CSSTransition !== 'undefined' && anim instanceof CSSTransition) {
+    return { kind: 'css-transition', name: anim.transitionProperty }
+  }
+  return { kind: 'waapi', name: anim.id || undefined }
+}
+
+export function extractAnimInfo(anim: Animation): AnimInfo | null {
+  const effect = anim.effect
+  if (!(effect instanceof KeyframeEffect)) return null
+  const timing     = effect.getTiming()
+  const rawEasing  = timing.easing ?? 'ease'
+  const rawDuration = timing.duration
+  const duration: number | 'auto' = typeof rawDuration === 'number' ? rawDuration : 'auto'
+  const delay      = typeof timing.delay === 'number' ? timing.delay : 0
+  const properties = extractProperties(effect)
+  const keyframes  = extractKeyframes(effect)
+  const target     = effect.target
+  return {
+    ...extractKind(anim),
+    target:     target ? describeElement(target) + (effect.pseudoElement ?? '') : undefined,
+    rawEasing,
+    easing:     parseEasing(rawEasing),
+    duration,
+    delay,
+    endDelay:   typeof timing.endDelay === 'number' ? timing.endDelay : 0,
+    iterations: timing.iterations ?? 1,
+    direction:  timing.direction ?? 'normal',
+    fill:       timing.fill ?? 'auto',
+    composite:  effect.composite,
+    pseudoElement: effect.pseudoElement ?? undefined,
+    properties,
+    keyframes,
+    source: sourceOf(anim),
+  }
+}
+
+export function collectAnimations(target: Element): AnimInfo[] {
+  const seen   = new Set<Animation>()
+  const result: AnimInfo[] = []
+  let el: Element | null = target
+  for (let depth = 0; depth < 5 && el; depth++, el = el.parentElement) {
+    for (const anim of el.getAnimations()) {
+      if (seen.has(anim)) continue
+      seen.add(anim)
+      const info = extractAnimInfo(anim)
+      if (info) result.push(info)
+    }
+  }
+  return result
+}
+
+// Explicit pick: the element, everything inside it and every ancestor.
+// subtree: true also reports ::before/::after animations.
+export function collectPickedAnimations(target: Element): AnimInfo[] {
+  const anims = new Set(target.getAnimations({ subtree: true }))
+  for (let el = target.parentElement; el; el = el.parentElement) {
+    el.getAnimations().forEach(anim => anims.add(anim))
+  }
+  const result: AnimInfo[] = []
+  anims.forEach((anim) => {
+    const info = extractAnimInfo(anim)
+    if (info) result.push(info)
+  })
+  return result
+}
+
+// ── Live animations ───────────────────────────────────────────────────
+
+export interface LiveAnimation {
+  id: number              // stable across samples while the animation lives
+  target: Element | null
+  label: string           // target description, pseudo-element included
+  info: AnimInfo
+  progress: number        // 0–1 within the current iteration
+  rate: number            // effective playbackRate / timeScale
+  playState: AnimationPlayState
+}
+
+const liveIds = new WeakMap<object, number>()
+let nextLiveId = 0
+
+function liveId(key: object): number {
+  if (!liveIds.has(key)) liveIds.set(key, ++nextLiveId)
+  return liveIds.get(key)!
+}
+
+function tweenInfo(tween: LibraryAnimation): AnimInfo {
+  return {
+    kind:       'gsap-tween',
+    target:     tween.target ? describeElement(tween.target) : undefined,
+    rawEasing:  tween.easing,
+    easing:     parseEasing(tween.easing),
+    duration:   tween.duration,
+    delay:      tween.delay,
+    endDelay:   0,
+    iterations: tween.iterations,
+    direction:  tween.alternate ? 'alternate' : 'normal',
+    fill:       'auto',
+    composite:  'replace',
+    properties: tween.properties,
+    keyframes:  [],
+  }
+}
+
+// Everything animating in this frame right now — WAAPI/CSS first, then
+// library animations. The toolbar's own animations are left out.
+export function sampleLiveAnimations(): LiveAnimation[] {
+  const live: LiveAnimation[] = []
+
+  for (const anim of pageAnimations()) {
+    const info = extractAnimInfo(anim)
+    if (!info) continue
+    const effect = anim.effect as KeyframeEffect
+    live.push({
+      id:        liveId(anim),
+      target:    effect.target,
+      label:     info.target ?? '(no target)',
+      info,
+      progress:  effect.getComputedTiming().progress ?? 0,
+      rate:      anim.playbackRate,
+      playState: anim.playState,
+    })
+  }
+
+  for (const tween of listAdapterAnimations()) {
+    live.push({
+      id:        liveId(tween.key),
+      target:    tween.target,
+      label:     tween.target ? describeElement(tween.target) : `(${tween.library} object)`,
+      info:      tweenInfo(tween),
+      progress:  tween.progress,
+      rate:      tween.rate,
+      playState: tween.playState,
+    })
+  }
+
+  return live
+}
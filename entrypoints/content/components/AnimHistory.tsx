@@ -1,6 +1,8 @@
 import { useState } from 'react'
 import { AnimatePresence, motion } from 'framer-motion'
 import { EasingPanel, formatMs, type AnimInfo } from './EasingPanel'
+import { StaggerTimeline } from './StaggerTimeline'
+import { ExportMenu } from './ExportMenu'
 import { AccordionGroup, AccordionItem, AccordionTrigger, AccordionContent } from './Accordion'
 import { camelToKebab } from '../lib/css-utils'
 
@@ -21,8 +23,11 @@ function getGroupTitle(group: HistoryGroup): string {
   const first = group.anims[0]
   const props = first.properties.map(camelToKebab)
 
+  // A named animation (@keyframes name, transitioned property) beats the property list
   let propLabel: string
-  if (props.length === 0) {
+  if (first.name) {
+    propLabel = first.name
+  } else if (props.length === 0) {
     propLabel = 'animation'
   } else if (props.length <= 2) {
     propLabel = props.join(', ')
@@ -39,6 +44,8 @@ function getGroupTitle(group: HistoryGroup): string {
 export function AnimHistory({ groups, openId, onOpenChange, onClear }: AnimHistoryProps) {
   // Per-group inner pagination index (which animation to show when expanded)
   const [innerIndex, setInnerIndex] = useState<Record<number, number>>({})
+  // Groups showing the stagger timeline instead of a single curve
+  const [timelineView, setTimelineView] = useState<Record<number, boolean>>({})
 
   if (groups.length === 0) return null
 
@@ -60,6 +67,9 @@ export function AnimHistory({ groups, openId, onOpenChange, onClear }: AnimHisto
         <AnimatePresence initial={false}>
           {groups.map((group, i) => {
             const idx = innerIndex[group.id] ?? 0
+            const showTimeline = group.anims.length > 1 && !!timelineView[group.id]
+            const setView = (timeline: boolean) =>
+              setTimelineView(prev => ({ ...prev, [group.id]: timeline }))
 
             return (
               <motion.div
@@ -72,14 +82,32 @@ export function AnimHistory({ groups, openId, onOpenChange, onClear }: AnimHisto
                 <AccordionItem value={String(group.id)} index={i}>
                   <AccordionTrigger>{getGroupTitle(group)}</AccordionTrigger>
                   <AccordionContent>
-                    <EasingPanel
-                      inset
-                      anims={group.anims}
-                      index={idx}
-                      onIndexChange={(i) =>
-                        setInnerIndex(prev => ({ ...prev, [group.id]: i }))
-                      }
-                    />
+                    {group.anims.length > 1 && (
+                      <div className="view-switch" role="tablist">
+                        <button role="tab" aria-selected={!showTimeline} onClick={() => setView(false)}>Curve</button>
+                        <button role="tab" aria-selected={showTimeline} onClick={() => setView(true)}>Timeline</button>
+                      </div>
+                    )}
+                    {showTimeline && <ExportMenu anims={group.anims} label="Copy group as" />}
+                    {showTimeline ? (
+                      <StaggerTimeline
+                        anims={group.anims}
+                        selected={idx}
+                        onSelect={(i) => {
+                          setInnerIndex(prev => ({ ...prev, [group.id]: i }))
+                          setView(false)
+                        }}
+                      />
+                    ) : (
+                      <EasingPanel
+                        inset
+                        anims={group.anims}
+                        index={idx}
+                        onIndexChange={(i) =>
+                          setInnerIndex(prev => ({ ...prev, [group.id]: i }))
+                        }
+                      />
+                    )}
                   </AccordionContent>
                 </AccordionItem>
               </motion.div>
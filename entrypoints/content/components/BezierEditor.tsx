@@ -0,0 +1,101 @@
+import type { ParsedEasing } from '../lib/easing-parser'
+import { TextField } from './TextField'
+
+export interface Bezier { x1: number; y1: number; x2: number; y2: number }
+
+interface BezierEditorProps {
+  bezier: Bezier
+  segments?: string[] // keyframe segment labels when editing per-keyframe easing
+  segment: number
+  edited: boolean
+  onSegmentChange: (segment: number) => void
+  onChange: (bezier: Bezier) => void
+  onRevert: () => void
+  onDone: () => void
+}
+
+const PRESETS: { label: string; bezier: Bezier }[] = [
+  { label: 'linear',      bezier: { x1: 0,    y1: 0,    x2: 1,    y2: 1 } },
+  { label: 'ease',        bezier: { x1: 0.25, y1: 0.1,  x2: 0.25, y2: 1 } },
+  { label: 'ease-in',     bezier: { x1: 0.42, y1: 0,    x2: 1,    y2: 1 } },
+  { label: 'ease-out',    bezier: { x1: 0,    y1: 0,    x2: 0.58, y2: 1 } },
+  { label: 'ease-in-out', bezier: { x1: 0.42, y1: 0,    x2: 0.58, y2: 1 } },
+  { label: 'back-out',    bezier: { x1: 0.34, y1: 1.56, x2: 0.64, y2: 1 } },
+]
+
+const FIELDS = ['x1', 'y1', 'x2', 'y2'] as const
+
+// Handles stay within the time axis; values may overshoot, within reason
+export function clampBezier({ x1, y1, x2, y2 }: Bezier): Bezier {
+  const x = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 100) / 100
+  const y = (v: number) => Math.round(Math.min(2, Math.max(-1, v)) * 100) / 100
+  return { x1: x(x1), y1: y(y1), x2: x(x2), y2: y(y2) }
+}
+
+// Non-bezier easings start editing from a straight line
+export function bezierOf(easing: ParsedEasing | undefined): Bezier {
+  if (easing?.type !== 'cubic-bezier') return PRESETS[0].bezier
+  const { x1, y1, x2, y2 } = easing
+  return { x1, y1, x2, y2 }
+}
+
+export function formatBezier({ x1, y1, x2, y2 }: Bezier): string {
+  return `cubic-bezier(${[x1, y1, x2, y2].map(v => parseFloat(v.toFixed(3))).join(', ')})`
+}
+
+// ── BezierEditor ──────────────────────────────────────────────────────
+// Numeric fields, presets and revert for the curve being dragged above.
+// Fields commit on Enter or blur; they re-mount when the curve changes
+// elsewhere so a drag never fights a half-typed value.
+
+export function BezierEditor({ bezier, segments, segment, edited, onSegmentChange, onChange, onRevert, onDone }: BezierEditorProps) {
+  function commit(field: typeof FIELDS[number], text: string) {
+    const value = parseFloat(text)
+    if (isNaN(value) || value === bezier[field]) return
+    onChange(clampBezier({ ...bezier, [field]: value }))
+  }
+
+  return (
+    <div className="bezier-editor">
+      {segments && segments.length > 1 && (
+        <div className="view-switch" role="tablist" aria-label="Keyframe segment">
+          {segments.map((label, i) => (
+            <button key={i} role="tab" aria-selected={i === segment} onClick={() => onSegmentChange(i)}>
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="bezier-fields">
+        {FIELDS.map(field => (
+          <label key={`${field}-${bezier[field]}`} className="bezier-field">
+            <span>{field}</span>
+            <TextField
+              type="number"
+              step={0.01}
+              min={field.startsWith('x') ? 0 : -1}
+              max={field.startsWith('x') ? 1 : 2}
+              defaultValue={bezier[field]}
+              onBlur={(e) => commit(field, e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') commit(field, e.currentTarget.value) }}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="bezier-presets">
+        {PRESETS.map(preset => (
+          <button key={preset.label} onClick={() => onChange(preset.bezier)}>
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="bezier-actions">
+        <button onClick={onRevert} disabled={!edited}>Revert</button>
+        <button onClick={onDone}>Done</button>
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,33 @@
-import { useState, useRef, useEffect } from 'react'
-import type { ParsedEasing, LinearEasing, UnknownEasing } from '../lib/easing-parser'
+import { useState, useRef, useEffect, useMemo, type DOMAttributes } from 'react'
+import { matchNamedEasing, namedEasingLabel, type ParsedEasing, type CubicBezierEasing, type UnknownEasing } from '../lib/easing-parser'
+import { evaluateEasing, stepEdges } from '../lib/easing-eval'
+import { isSpring, fitSpring, formatSpringConfig, SPRING_FIT_TOLERANCE } from '../lib/spring-fit'
 import { camelToKebab } from '../lib/css-utils'
+import { segmentsOf, hasKeyframeEasing, formatKeyframesCSS, type KeyframeInfo } from '../lib/keyframes'
+import { canReplay, replay, type AnimSource } from '../replay'
+import { canEditEasing, editEasing, isEasingEdited, revertEasing, type EasingTarget } from '../easing-edit'
+import { ExportMenu } from './ExportMenu'
+import { BezierEditor, bezierOf, clampBezier, formatBezier, type Bezier } from './BezierEditor'
+
+export type AnimKind = 'css-animation' | 'css-transition' | 'waapi' | 'gsap-tween'
 
 export interface AnimInfo {
+  kind: AnimKind
+  name?: string             // animationName, transitionProperty or Animation.id
+  target?: string           // describeElement() of effect.target, pseudo-element appended
   rawEasing: string
   easing: ParsedEasing
   duration: number | 'auto' // ms
   delay: number             // ms
+  endDelay: number          // ms
+  iterations: number        // Infinity for infinite
+  direction: PlaybackDirection
+  fill: FillMode
+  composite: CompositeOperation
+  pseudoElement?: string    // '::before' / '::after' when the effect targets one
   properties: string[]      // camelCase CSS property names from keyframes
+  keyframes: KeyframeInfo[] // per-keyframe offsets, easings and values
+  source?: AnimSource       // weak refs to the Animation and its target, for replay
 }
 
 interface EasingPanelProps {
@@ -34,78 +54,110 @@ const BASE_H_PX = 90             // baseline container height in px
 function svgY(v: number, extraTop = 0) { return extraTop + PAD + H * (1 - v) }
 function svgX(p: number) { return HPAD + p * W }
 
-function buildPath(easing: ParsedEasing, extraTop = 0): string {
-  const y = (v: number) => svgY(v, extraTop)
+// Sub-rectangle of the unit square a curve is drawn into — keyframe
+// segments each occupy the span between their offsets.
+interface Box { x0: number; x1: number; y0: number; y1: number }
+const UNIT_BOX: Box = { x0: 0, x1: 1, y0: 0, y1: 1 }
+
+function buildPath(easing: ParsedEasing, extraTop = 0, box = UNIT_BOX): string {
+  const x = (p: number) => svgX(box.x0 + p * (box.x1 - box.x0))
+  const y = (v: number) => svgY(box.y0 + v * (box.y1 - box.y0), extraTop)
   switch (easing.type) {
     case 'cubic-bezier': {
       const { x1, y1, x2, y2 } = easing
       return (
-        `M ${svgX(0)},${y(0)} ` +
-        `C ${svgX(x1)},${y(y1)} ${svgX(x2)},${y(y2)} ${svgX(1)},${y(1)}`
+        `M ${x(0)},${y(0)} ` +
+        `C ${x(x1)},${y(y1)} ${x(x2)},${y(y2)} ${x(1)},${y(1)}`
       )
     }
 
     case 'linear': {
       if (!easing.stops.length) return ''
-      return easing.stops
-        .map((s, i) => `${i === 0 ? 'M' : 'L'} ${svgX(s.position)},${y(s.value)}`)
+      // Control points inside [0, 1], with the ends evaluated so stops
+      // positioned outside the box are clipped (or extrapolated) to it
+      const inputs = [0, ...easing.stops.map(s => s.position).filter(p => p > 0 && p < 1), 1]
+      return inputs
+        .map((p, i) => `${i === 0 ? 'M' : 'L'} ${x(p)},${y(evaluateEasing(easing, p))}`)
         .join(' ')
     }
 
     case 'steps': {
-      const { count, direction } = easing
-      const isStart = direction === 'start' || direction === 'both'
-      if (isStart) {
-        let d = `M ${svgX(0)},${y(1 / count)}`
-        for (let i = 0; i < count; i++) {
-          const xNext = svgX((i + 1) / count)
-          d += ` H ${xNext}`
-          if (i < count - 1) d += ` V ${y((i + 2) / count)}`
-        }
-        return d
-      } else {
-        let d = `M ${svgX(0)},${y(0)}`
-        for (let i = 0; i < count; i++) {
-          d += ` H ${svgX((i + 1) / count)} V ${y((i + 1) / count)}`
-        }
-        return d
+      // Flat runs between the edges, a riser at each jump
+      const [first, ...edges] = stepEdges(easing)
+      let d = `M ${x(first)},${y(evaluateEasing(easing, first))}`
+      for (const edge of edges) {
+        d += ` H ${x(edge)} V ${y(evaluateEasing(easing, edge))}`
       }
+      return d
     }
 
     default:
-      return `M ${svgX(0)},${y(0)} L ${svgX(1)},${y(1)}`
+      return `M ${x(0)},${y(0)} L ${x(1)},${y(1)}`
   }
 }
 
-// A spring is encoded by Framer Motion as a linear() function with many
-// discrete stops. The threshold of 20 distinguishes springs from hand-authored
-// linear() easings which rarely exceed 10 stops.
-function isSpring(easing: ParsedEasing): easing is LinearEasing {
-  return easing.type === 'linear' && easing.stops.length > 20
+// Chains the segment curves: segment i spans keyframe i's offset to the
+// next on both axes, so the path reads as progress through the keyframes.
+function buildKeyframesPath(keyframes: KeyframeInfo[], extraTop = 0): string {
+  return segmentsOf(keyframes)
+    .map((kf, i) => {
+      const end = keyframes[i + 1].offset
+      return buildPath(kf.easing, extraTop, { x0: kf.offset, x1: end, y0: kf.offset, y1: end })
+    })
+    .join(' ')
+}
+
+// Highest point a curve reaches in its own unit box (bezier control points
+// bound the curve, so they're a safe ceiling)
+function peakOf(easing: ParsedEasing): number {
+  if (easing.type === 'linear') return Math.max(1, ...easing.stops.map(s => s.value))
+  if (easing.type === 'cubic-bezier') return Math.max(1, easing.y1, easing.y2)
+  return 1
 }
 
 // ── Formatting helpers ────────────────────────────────────────────────
 
+// CSS value for a bezier — the keyword when it was written as one
+function formatCubicBezier(easing: CubicBezierEasing): string {
+  if (easing.name) return easing.name
+  const vals = [easing.x1, easing.y1, easing.x2, easing.y2]
+    .map(v => parseFloat(v.toFixed(3)).toString())
+  return `cubic-bezier(${vals.join(', ')})`
+}
+
 function getLabel(easing: ParsedEasing, raw: string): string {
   if (easing.type === 'cubic-bezier' && easing.name) {
     return easing.name
   }
   if (easing.type === 'cubic-bezier') {
-    const vals = [easing.x1, easing.y1, easing.x2, easing.y2]
-      .map(v => parseFloat(v.toFixed(3)).toString())
-    return `cubic-bezier(${vals.join(', ')})`
+    // Known curves go by their name; close ones show how far off they are
+    const match = matchNamedEasing(easing)
+    if (!match) return formatCubicBezier(easing)
+    const name = namedEasingLabel(match.easing)
+    return match.exact ? name : `\u2248 ${name} (\u0394 ${match.distance.toFixed(2)})`
   }
   if (easing.type === 'linear') {
     if (easing.stops.length > 20) return 'spring'
     return easing.stops.length > 10 ? 'linear(\u2026)' : raw
   }
   if (easing.type === 'steps') {
-    return `steps(${easing.count}, ${easing.direction})`
+    // jump-end is the default position — steps(4) reads the same
+    return easing.direction === 'jump-end'
+      ? `steps(${easing.count})`
+      : `steps(${easing.count}, ${easing.direction})`
   }
   const r = (easing as UnknownEasing).raw
   return r.length > 30 ? r.slice(0, 27) + '\u2026' : r
 }
 
+// Uniform segment easing is named; mixed ones are listed in the tooltip
+function getKeyframesLabel(keyframes: KeyframeInfo[]): string {
+  const segments = segmentsOf(keyframes)
+  const labels = new Set(segments.map(kf => getLabel(kf.easing, kf.rawEasing)))
+  const summary = labels.size === 1 ? [...labels][0] : 'mixed'
+  return `${keyframes.length} keyframes · ${summary}`
+}
+
 export function formatMs(ms: number | 'auto'): string {
   if (ms === 'auto') return 'auto'
   if (ms === 0) return '0s'
@@ -115,17 +167,44 @@ export function formatMs(ms: number | 'auto'): string {
   return `${sign}${parseFloat((abs / 1000).toFixed(2))}s`
 }
 
+export const KIND_LABELS: Record<AnimKind, string> = {
+  'css-animation':  'CSS animation',
+  'css-transition': 'CSS transition',
+  waapi:            'WAAPI',
+  'gsap-tween':     'GSAP tween',
+}
+
+// Kind and name first, then only the timing fields that differ from their defaults
+function getDetails(info: AnimInfo): string[] {
+  const parts = [KIND_LABELS[info.kind]]
+  if (info.pseudoElement) parts.push(info.pseudoElement)
+  if (info.name && info.kind !== 'css-transition') parts.push(info.name)
+  if (info.iterations !== 1) parts.push(`${info.iterations === Infinity ? '\u221e' : info.iterations}\u00d7`)
+  if (info.direction !== 'normal') parts.push(info.direction)
+  if (info.fill !== 'auto' && info.fill !== 'none') parts.push(`fill ${info.fill}`)
+  if (info.endDelay !== 0) parts.push(`end delay ${formatMs(info.endDelay)}`)
+  if (info.composite !== 'replace') parts.push(info.composite)
+  return parts
+}
+
+// Loop button presets — the count button cycles through them
+const LOOP_COUNTS = [2, 3, 5]
+
 // ── Bezier handle dots ────────────────────────────────────────────────
 // HTML divs rather than SVG circles so they stay perfectly round
 // even though the SVG uses preserveAspectRatio="none" (non-uniform scale).
 // Positions are computed as percentages matching the SVG coordinate system.
 
-function BezierDot({ x, y, size, color, viewBoxH = BASE_VB_H }: { x: number; y: number; size: number; color: string; viewBoxH?: number }) {
+// Pointer handlers that make a dot draggable — see EasingCurve
+type DotDrag = Pick<DOMAttributes<HTMLDivElement>, 'onPointerDown' | 'onPointerMove'>
+
+function BezierDot({ x, y, size, color, viewBoxH = BASE_VB_H, drag }: { x: number; y: number; size: number; color: string; viewBoxH?: number; drag?: DotDrag }) {
   const left   = `${((HPAD + x * W) / (W + 2 * HPAD)) * 100}%`
   const bottom = `${((PAD  + H * y) / viewBoxH) * 100}%`
   return (
     <div
       aria-hidden="true"
+      {...drag}
       style={{
         position: 'absolute',
         left,
@@ -135,7 +214,12 @@ function BezierDot({ x, y, size, color, viewBoxH = BASE_VB_H }: { x: number; y:
         height: size,
         borderRadius: '50%',
         background: color,
-        pointerEvents: 'none',
+        pointerEvents: drag ? 'auto' : 'none',
+        cursor: drag ? 'grab' : undefined,
+        touchAction: drag ? 'none' : undefined,
+        // Transparent border widens the hit area around the visible dot
+        border: drag ? '6px solid transparent' : undefined,
+        backgroundClip: 'padding-box',
       }}
     />
   )
@@ -143,20 +227,51 @@ function BezierDot({ x, y, size, color, viewBoxH = BASE_VB_H }: { x: number; y:
 
 // ── SVG curve ─────────────────────────────────────────────────────────
 
-function EasingCurve({ easing }: { easing: ParsedEasing }) {
+interface EasingCurveProps {
+  easing: ParsedEasing
+  keyframes?: KeyframeInfo[]
+  onHandleDrag?: (handle: 1 | 2, x: number, y: number) => void // makes bezier handles draggable
+}
+
+function EasingCurve({ easing, keyframes, onHandleDrag }: EasingCurveProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
   // For springs, expand the viewBox upward to show overshoot above y=1.
   // extraTop is measured in SVG units; convert to px using the base ratio.
   let extraTop = 0
-  if (isSpring(easing) && easing.stops.length > 0) {
+  if (onHandleDrag) {
+    // While editing, make room for a handle dragged above the top
+    extraTop = Math.max(0, peakOf(easing) - 1) * H
+  } else if (keyframes) {
+    const yMax = Math.max(1, ...segmentsOf(keyframes).map((kf, i) =>
+      kf.offset + peakOf(kf.easing) * (keyframes[i + 1].offset - kf.offset)))
+    extraTop = Math.max(0, yMax - 1) * H
+  } else if (isSpring(easing) && easing.stops.length > 0) {
     const yMax = Math.max(1, ...easing.stops.map(s => s.value))
     extraTop = Math.max(0, yMax - 1) * H
   }
   const viewBoxH = BASE_VB_H + extraTop
   const svgH     = Math.round(BASE_H_PX * viewBoxH / BASE_VB_H)
 
-  const d = buildPath(easing, extraTop)
+  // Pointer capture keeps the drag on the dot even when it outruns the pointer;
+  // positions map back through the same geometry BezierDot lays out with
+  const dragFor = (handle: 1 | 2): DotDrag | undefined => onHandleDrag && {
+    onPointerDown: (e) => {
+      e.preventDefault()
+      e.currentTarget.setPointerCapture(e.pointerId)
+    },
+    onPointerMove: (e) => {
+      const rect = containerRef.current?.getBoundingClientRect()
+      if (!rect || !e.currentTarget.hasPointerCapture(e.pointerId)) return
+      const px = ((e.clientX - rect.left) / rect.width) * (W + 2 * HPAD)
+      const py = ((rect.bottom - e.clientY) / rect.height) * viewBoxH
+      onHandleDrag(handle, (px - HPAD) / W, (py - PAD) / H)
+    },
+  }
+
+  const d = keyframes ? buildKeyframesPath(keyframes, extraTop) : buildPath(easing, extraTop)
   return (
-    <div style={{ position: 'relative', height: svgH }}>
+    <div ref={containerRef} style={{ position: 'relative', height: svgH }}>
       <svg
         viewBox={`0 0 ${W + HPAD * 2} ${viewBoxH}`}
         preserveAspectRatio="none"
@@ -164,7 +279,7 @@ function EasingCurve({ easing }: { easing: ParsedEasing }) {
         aria-hidden="true"
       >
         {/* Bezier handle lines — drawn before the curve so curve renders on top */}
-        {easing.type === 'cubic-bezier' && (
+        {!keyframes && easing.type === 'cubic-bezier' && (
           <>
             <line
               x1={svgX(0)}         y1={svgY(0, extraTop)}
@@ -194,14 +309,18 @@ function EasingCurve({ easing }: { easing: ParsedEasing }) {
       </svg>
 
       {/* Perfectly round dots overlaid via HTML (immune to SVG aspect-ratio distortion) */}
-      {easing.type === 'cubic-bezier' && (
+      {/* Keyframe joints — one muted dot per keyframe offset */}
+      {keyframes?.map((kf, i) => (
+        <BezierDot key={i} x={kf.offset} y={kf.offset} size={5} color="var(--toolbar-muted)" viewBoxH={viewBoxH} />
+      ))}
+      {!keyframes && easing.type === 'cubic-bezier' && (
         <>
           {/* Anchor points at (0,0) and (1,1) — muted color, no transparency */}
           <BezierDot x={0} y={0} size={5} color="var(--toolbar-muted)" viewBoxH={viewBoxH} />
           <BezierDot x={1} y={1} size={5} color="var(--toolbar-muted)" viewBoxH={viewBoxH} />
           {/* Control points — full curve-line color */}
-          <BezierDot x={easing.x1} y={easing.y1} size={8} color="currentColor" viewBoxH={viewBoxH} />
-          <BezierDot x={easing.x2} y={easing.y2} size={8} color="currentColor" viewBoxH={viewBoxH} />
+          <BezierDot x={easing.x1} y={easing.y1} size={8} color="currentColor" viewBoxH={viewBoxH} drag={dragFor(1)} />
+          <BezierDot x={easing.x2} y={easing.y2} size={8} color="currentColor" viewBoxH={viewBoxH} drag={dragFor(2)} />
         </>
       )}
     </div>
@@ -214,21 +333,77 @@ export function EasingPanel({ anims, index, onIndexChange, inset }: EasingPanelP
   const info = anims[index]
 
   const [copied, setCopied] = useState(false)
+  const [springCopied, setSpringCopied] = useState(false)
+  const [loopIndex, setLoopIndex] = useState(0)
+  // undefined while not editing; null edits the effect easing
+  const [editTarget, setEditTarget] = useState<EasingTarget | undefined>(undefined)
+  // Edits mutate the captured info in place — bump to re-render
+  const [, setRevision] = useState(0)
   const copyTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   // Clear pending timer on unmount to avoid state update on unmounted component
   useEffect(() => () => { if (copyTimer.current) clearTimeout(copyTimer.current) }, [])
 
+  // Switching animations closes the editor — compared by the page's Animation,
+  // since the live list hands over a fresh snapshot on every sample
+  const identity = info?.source?.animation.deref() ?? info
+  useEffect(() => setEditTarget(undefined), [identity])
+
+  // Keyed on the raw string — the live list re-parses the same curve every sample
+  const springFit = useMemo(() => {
+    if (!info || !isSpring(info.easing) || info.duration === 'auto') return null
+    const fit = fitSpring(info.easing, info.duration)
+    return fit && fit.error < SPRING_FIT_TOLERANCE ? fit : null
+  }, [info?.rawEasing, info?.duration])
+
   if (!info) return null
 
-  const label = getLabel(info.easing, info.rawEasing)
+  // CSS @keyframes ease per keyframe — show the chained segments instead
+  const perKeyframe = hasKeyframeEasing(info.keyframes)
+  const label = perKeyframe ? getKeyframesLabel(info.keyframes) : getLabel(info.easing, info.rawEasing)
+  const title = perKeyframe
+    ? segmentsOf(info.keyframes).map(kf => kf.rawEasing).join(' \u2192 ')
+    : info.rawEasing
   const dur   = formatMs(info.duration)
   const delay = info.delay !== 0 ? ` · ${formatMs(info.delay)}` : ''
 
-  const canCopy = info.easing.type === 'cubic-bezier'
+  const canCopy = perKeyframe || info.easing.type === 'cubic-bezier'
+
+  const editing = editTarget !== undefined
+  const editedEasing = editTarget ? info.keyframes[editTarget.keyframe]?.easing : info.easing
+  const segmentLabels = segmentsOf(info.keyframes).map((kf, i) =>
+    `${Math.round(kf.offset * 100)}–${Math.round(info.keyframes[i + 1].offset * 100)}%`)
+
+  function applyBezier(bezier: Bezier) {
+    if (editTarget === undefined) return
+    if (editEasing(info, editTarget, formatBezier(bezier))) setRevision(r => r + 1)
+  }
+
+  function handleDrag(handle: 1 | 2, x: number, y: number) {
+    const current = bezierOf(editedEasing)
+    applyBezier(clampBezier(handle === 1 ? { ...current, x1: x, y1: y } : { ...current, x2: x, y2: y }))
+  }
+
+  function handleRevert() {
+    revertEasing(info)
+    setRevision(r => r + 1)
+  }
+
+  function handleCopySpring() {
+    if (!springFit) return
+    navigator.clipboard.writeText(formatSpringConfig(springFit)).then(() => {
+      setSpringCopied(true)
+      if (copyTimer.current) clearTimeout(copyTimer.current)
+      copyTimer.current = setTimeout(() => setSpringCopied(false), 1500)
+    }, () => {})
+  }
 
   function handleCopy() {
-    navigator.clipboard.writeText(label).then(() => {
+    const name = info.kind === 'css-animation' ? info.name : undefined
+    const text = perKeyframe
+      ? formatKeyframesCSS(info.keyframes, name)
+      : info.easing.type === 'cubic-bezier' ? formatCubicBezier(info.easing) : label
+    navigator.clipboard.writeText(text).then(() => {
       setCopied(true)
       if (copyTimer.current) clearTimeout(copyTimer.current)
       copyTimer.current = setTimeout(() => setCopied(false), 1500)
@@ -271,17 +446,35 @@ export function EasingPanel({ anims, index, onIndexChange, inset }: EasingPanelP
       )}
 
       <div className="easing-curve-bg">
-        <EasingCurve easing={info.easing} />
+        {editing ? (
+          <EasingCurve easing={editedEasing ?? info.easing} onHandleDrag={handleDrag} />
+        ) : (
+          <EasingCurve easing={info.easing} keyframes={perKeyframe ? info.keyframes : undefined} />
+        )}
       </div>
 
+      {editing && (
+        <BezierEditor
+          bezier={bezierOf(editedEasing)}
+          segments={editTarget ? segmentLabels : undefined}
+          segment={editTarget?.keyframe ?? 0}
+          edited={isEasingEdited(info)}
+          onSegmentChange={(keyframe) => setEditTarget({ keyframe })}
+          onChange={applyBezier}
+          onRevert={handleRevert}
+          onDone={() => setEditTarget(undefined)}
+        />
+      )}
+
       <div className="easing-meta">
-        <span className="easing-value" title={info.rawEasing}>{label}</span>
+        <span className="easing-value" title={title}>{label}</span>
         <span className="easing-timing">{dur}{delay}</span>
+        <span className="easing-details">{getDetails(info).join(' · ')}</span>
         {canCopy && (
           <button
             className={`easing-copy-btn${copied ? ' is-copied' : ''}`}
             onClick={handleCopy}
-            aria-label="Copy easing value"
+            aria-label={perKeyframe ? 'Copy keyframes' : 'Copy easing value'}
           >
             {copied
               ? /* checkmark */
@@ -293,7 +486,95 @@ export function EasingPanel({ anims, index, onIndexChange, inset }: EasingPanelP
         )}
       </div>
 
-      {isSpring(info.easing) && (
+      {/* Replay controls — at whatever speed Slooow is running */}
+      {info.source && info.kind !== 'gsap-tween' && (
+        <div className="replay-controls">
+          <button
+            className="easing-nav-btn"
+            onClick={() => { void replay(info, 'forward') }}
+            disabled={!canReplay(info)}
+            aria-label="Replay"
+            title="Replay at the current speed"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+              <polyline points="1 4 1 10 7 10" /><path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10" />
+            </svg>
+          </button>
+          <button
+            className="easing-nav-btn"
+            onClick={() => { void replay(info, 'reverse') }}
+            disabled={!canReplay(info)}
+            aria-label="Play reversed"
+            title="Play reversed"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+              <polygon points="19 20 9 12 19 4 19 20" /><line x1="5" y1="19" x2="5" y2="5" />
+            </svg>
+          </button>
+          {Number.isFinite(info.iterations) && (
+            <>
+              <button
+                className="easing-nav-btn"
+                onClick={() => { void replay(info, 'forward', LOOP_COUNTS[loopIndex]) }}
+                disabled={!canReplay(info)}
+                aria-label={`Loop ${LOOP_COUNTS[loopIndex]} times`}
+                title={`Loop ${LOOP_COUNTS[loopIndex]} times`}
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+                  <polyline points="17 1 21 5 17 9" /><path d="M3 11V9a4 4 0 0 1 4-4h14" />
+                  <polyline points="7 23 3 19 7 15" /><path d="M21 13v2a4 4 0 0 1-4 4H3" />
+                </svg>
+              </button>
+              <button
+                className="step-size replay-loop-count"
+                onClick={() => setLoopIndex((loopIndex + 1) % LOOP_COUNTS.length)}
+                title="Loop count — click to change"
+              >
+                ×{LOOP_COUNTS[loopIndex]}
+              </button>
+            </>
+          )}
+          {canEditEasing(info) && (
+            <button
+              className="easing-nav-btn replay-edit"
+              onClick={() => setEditTarget(editing ? undefined : perKeyframe ? { keyframe: 0 } : null)}
+              aria-pressed={editing}
+              aria-label="Edit curve"
+              title="Edit the curve on the live page"
+            >
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+                <path d="M12 20h9" /><path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z" />
+              </svg>
+            </button>
+          )}
+        </div>
+      )}
+
+      <ExportMenu anims={[info]} />
+
+      {springFit && (
+        <div className="easing-spring-fit">
+          <p className="easing-spring-hint" title={`damping ratio ${springFit.dampingRatio}`}>
+            stiffness {springFit.stiffness} · damping {springFit.damping} · mass {springFit.mass}
+            {springFit.framer && (
+              <> · duration {springFit.framer.duration}s · bounce {springFit.framer.bounce}</>
+            )}
+            {' '}· fit ±{(springFit.error * 100).toFixed(1)}%
+          </p>
+          <button
+            className={`export-menu-btn${springCopied ? ' is-copied' : ''}`}
+            onClick={handleCopySpring}
+            aria-label="Copy spring config"
+          >
+            {springCopied && (
+              <svg width="11" height="11" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true"><polyline points="20 6 9 17 4 12" /></svg>
+            )}
+            Spring
+          </button>
+        </div>
+      )}
+
+      {isSpring(info.easing) && !springFit && (
         <p className="easing-spring-hint">
           sampled CSS curve · exact shape may differ
         </p>
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react'
+import { describeElement } from '../lib/css-utils'
+
+interface ElementPickerProps {
+  picking: boolean
+  locked: Element | null
+  host: Element | null // the toolbar's shadow host — events inside it pass through
+  onLock: (el: Element) => void
+  onExit: () => void
+}
+
+// Page events swallowed while picking so clicks select instead of activating
+const BLOCKED_EVENTS = ['pointerdown', 'pointerup', 'mousedown', 'mouseup', 'click', 'dblclick', 'contextmenu'] as const
+
+function sameRect(a: DOMRect | null, b: DOMRect): boolean {
+  return !!a && a.top === b.top && a.left === b.left && a.width === b.width && a.height === b.height
+}
+
+// ── ElementPicker ─────────────────────────────────────────────────────
+// Inspect mode. While picking, the element under the pointer is outlined
+// with its selector and animation count; a click locks onto it. The locked
+// element stays outlined until Esc or the header button clears it.
+
+export function ElementPicker({ picking, locked, host, onLock, onExit }: ElementPickerProps) {
+  const [hovered, setHovered] = useState<Element | null>(null)
+  const [rect, setRect] = useState<DOMRect | null>(null)
+
+  const target = picking ? hovered : locked
+
+  useEffect(() => {
+    if (!picking) {
+      setHovered(null)
+      return
+    }
+
+    const fromToolbar = (e: Event) => !!host && e.composedPath().includes(host)
+    // composedPath()[0] reaches into open shadow roots the page owns
+    const pageTarget = (e: Event) => {
+      const node = e.composedPath()[0]
+      return node instanceof Element ? node : null
+    }
+
+    const handleMove = (e: PointerEvent) => {
+      if (fromToolbar(e)) return setHovered(null)
+      setHovered(pageTarget(e))
+    }
+
+    const handleBlocked = (e: Event) => {
+      if (fromToolbar(e)) return
+      e.preventDefault()
+      e.stopImmediatePropagation()
+      if (e.type !== 'click') return
+      const el = pageTarget(e)
+      if (el) onLock(el)
+    }
+
+    window.addEventListener('pointermove', handleMove, { capture: true, passive: true })
+    BLOCKED_EVENTS.forEach(type => window.addEventListener(type, handleBlocked, { capture: true }))
+    return () => {
+      window.removeEventListener('pointermove', handleMove, { capture: true })
+      BLOCKED_EVENTS.forEach(type => window.removeEventListener(type, handleBlocked, { capture: true }))
+    }
+  }, [picking, host, onLock])
+
+  // Esc leaves inspect mode and drops the lock
+  useEffect(() => {
+    if (!picking && !locked) return
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      e.stopPropagation()
+      onExit()
+    }
+    window.addEventListener('keydown', handleKey, { capture: true })
+    return () => window.removeEventListener('keydown', handleKey, { capture: true })
+  }, [picking, locked, onExit])
+
+  // Follow the target through scrolling, layout and its own animation
+  useEffect(() => {
+    if (!target) {
+      setRect(null)
+      return
+    }
+    let frame = 0
+    const track = () => {
+      const next = target.getBoundingClientRect()
+      setRect(prev => (sameRect(prev, next) ? prev : next))
+      frame = requestAnimationFrame(track)
+    }
+    track()
+    return () => cancelAnimationFrame(frame)
+  }, [target])
+
+  if (!target || !rect || !target.isConnected) return null
+
+  const count = target.getAnimations({ subtree: true }).length
+  const label = `${describeElement(target)} · ${count} animation${count === 1 ? '' : 's'}`
+
+  return (
+    <div
+      className={`picker-box${picking ? '' : ' is-locked'}`}
+      style={{ top: rect.top, left: rect.left, width: rect.width, height: rect.height }}
+      aria-hidden="true"
+    >
+      <span className={`picker-label${rect.top < 24 ? ' is-inside' : ''}`}>{label}</span>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react'
+import { AnimatePresence, motion } from 'framer-motion'
+import { normalizeRules, isValidSelector } from '../exclusions'
+import { springs } from '../lib/springs'
+import { TextField } from './TextField'
+
+interface ExclusionRulesProps {
+  rules: string[]
+  onChange: (rules: string[]) => void
+  suggestion?: string // selector of the picked element, offered as a one-click rule
+}
+
+// ── ExclusionRules ────────────────────────────────────────────────────
+// "Never slow" selectors for this site. Collapsed to a single row with the
+// rule count; expanded it lists the rules and takes new ones via Enter.
+
+export function ExclusionRules({ rules, onChange, suggestion }: ExclusionRulesProps) {
+  const [open, setOpen]   = useState(false)
+  const [draft, setDraft] = useState('')
+
+  const invalid = draft.trim() !== '' && !isValidSelector(draft.trim())
+
+  function addRule(rule: string) {
+    if (!isValidSelector(rule.trim())) return
+    onChange(normalizeRules([...rules, rule]))
+    setDraft('')
+  }
+
+  return (
+    <div className="exclusions">
+      <button
+        className="section-toggle"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        <span>Never slow</span>
+        <span className="section-toggle-count">{rules.length ? rules.length : 'none'}</span>
+      </button>
+
+      <AnimatePresence initial={false}>
+        {open && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{
+              height: springs.moderate,
+              opacity: { type: 'tween', duration: 0.15, ease: 'easeInOut' },
+            }}
+            style={{ overflow: 'hidden' }}
+          >
+            {rules.length > 0 && (
+              <ul className="exclusions-list">
+                {rules.map((rule) => (
+                  <li key={rule}>
+                    <span className="exclusions-rule" title={rule}>{rule}</span>
+                    <button
+                      className="easing-nav-btn"
+                      onClick={() => onChange(rules.filter((r) => r !== rule))}
+                      aria-label={`Remove rule ${rule}`}
+                    >
+                      <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" aria-hidden="true">
+                        <line x1="6" y1="6" x2="18" y2="18" />
+                        <line x1="18" y1="6" x2="6" y2="18" />
+                      </svg>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <TextField
+              className={`exclusions-input${invalid ? ' is-invalid' : ''}`}
+              value={draft}
+              placeholder=".marquee, video.player"
+              spellCheck={false}
+              aria-label="Add a selector to never slow"
+              aria-invalid={invalid}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') addRule(draft) }}
+            />
+
+            {suggestion && !rules.includes(suggestion) && (
+              <button className="exclusions-suggest" onClick={() => addRule(suggestion)}>
+                + {suggestion}
+              </button>
+            )}
+
+            <p className="scope-warning">
+              Applies to CSS, WAAPI, media and GSAP · rAF loops and clocks stay page-wide
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
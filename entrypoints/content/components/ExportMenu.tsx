@@ -0,0 +1,48 @@
+import { useState, useRef, useEffect } from 'react'
+import type { AnimInfo } from './EasingPanel'
+import { EXPORT_FORMATS, exportAnimations, type ExportFormat } from '../lib/export-code'
+
+interface ExportMenuProps {
+  anims: AnimInfo[]
+  label?: string
+}
+
+// ── ExportMenu ────────────────────────────────────────────────────────
+// One row of format buttons; clicking one copies the animations as code.
+// The clicked format shows a checkmark for a moment.
+
+export function ExportMenu({ anims, label = 'Copy as' }: ExportMenuProps) {
+  const [copied, setCopied] = useState<ExportFormat | null>(null)
+  const copyTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => () => { if (copyTimer.current) clearTimeout(copyTimer.current) }, [])
+
+  function handleExport(format: ExportFormat) {
+    navigator.clipboard.writeText(exportAnimations(anims, format)).then(() => {
+      setCopied(format)
+      if (copyTimer.current) clearTimeout(copyTimer.current)
+      copyTimer.current = setTimeout(() => setCopied(null), 1500)
+    }, () => {})
+  }
+
+  if (!anims.length) return null
+
+  return (
+    <div className="export-menu" role="group" aria-label={label}>
+      <span className="export-menu-label">{label}</span>
+      {EXPORT_FORMATS.map(({ id, label: name }) => (
+        <button
+          key={id}
+          className={`export-menu-btn${copied === id ? ' is-copied' : ''}`}
+          onClick={() => handleExport(id)}
+          aria-label={`${label} ${name}`}
+        >
+          {copied === id && (
+            <svg width="11" height="11" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true"><polyline points="20 6 9 17 4 12" /></svg>
+          )}
+          {name}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react'
+import { AnimatePresence, motion } from 'framer-motion'
+import { EasingPanel, KIND_LABELS } from './EasingPanel'
+import type { LiveAnimation } from '../capture'
+import { camelToKebab } from '../lib/css-utils'
+import { formatSpeed } from '../../../src/shared/speed'
+import { springs } from '../lib/springs'
+
+interface LiveAnimationsProps {
+  count: number                   // last reported count, shown while collapsed
+  sample: () => LiveAnimation[]
+  onSelect: (target: Element | null) => void
+}
+
+// Sampling only runs while the list is open
+const SAMPLE_INTERVAL = 200
+const MAX_ROWS = 50
+
+// ── LiveAnimations ────────────────────────────────────────────────────
+// Everything animating right now, re-sampled while open. Selecting a row
+// highlights its target on the page and opens its easing below the list;
+// the selection outlives the animation so finished ones can still be read.
+
+export function LiveAnimations({ count, sample, onSelect }: LiveAnimationsProps) {
+  const [open, setOpen]         = useState(false)
+  const [entries, setEntries]   = useState<LiveAnimation[]>([])
+  const [selected, setSelected] = useState<LiveAnimation | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const tick = () => setEntries(sample())
+    tick()
+    const interval = setInterval(tick, SAMPLE_INTERVAL)
+    return () => clearInterval(interval)
+  }, [open, sample])
+
+  function toggleOpen() {
+    if (open && selected) {
+      setSelected(null)
+      onSelect(null)
+    }
+    setOpen(!open)
+  }
+
+  function select(entry: LiveAnimation) {
+    const next = selected?.id === entry.id ? null : entry
+    setSelected(next)
+    onSelect(next?.target ?? null)
+  }
+
+  // Latest sample of the selection, or its last snapshot once it's gone
+  const current = selected ? entries.find(e => e.id === selected.id) ?? selected : null
+
+  return (
+    <div className="live-animations">
+      <button className="section-toggle" onClick={toggleOpen} aria-expanded={open}>
+        <span>Animating now</span>
+        <span className="section-toggle-count">{open ? entries.length : count}</span>
+      </button>
+
+      <AnimatePresence initial={false}>
+        {open && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{
+              height: springs.moderate,
+              opacity: { type: 'tween', duration: 0.15, ease: 'easeInOut' },
+            }}
+            style={{ overflow: 'hidden' }}
+          >
+            <ul className="live-list">
+              {entries.slice(0, MAX_ROWS).map(entry => (
+                <li key={entry.id}>
+                  <button
+                    className={`live-row${entry.id === selected?.id ? ' is-selected' : ''}`}
+                    onClick={() => select(entry)}
+                  >
+                    <span className="live-row-top">
+                      <span className="live-target">{entry.label}</span>
+                      <span className="live-rate">
+                        {formatSpeed(entry.rate)} · {entry.playState}
+                      </span>
+                    </span>
+                    <span className="live-meta">
+                      {KIND_LABELS[entry.info.kind]}
+                      {entry.info.properties.length > 0 && ` · ${entry.info.properties.slice(0, 2).map(camelToKebab).join(', ')}`}
+                    </span>
+                    <span className="live-progress" aria-hidden="true">
+                      <span style={{ transform: `scaleX(${entry.progress})` }} />
+                    </span>
+                  </button>
+                </li>
+              ))}
+              {entries.length > MAX_ROWS && (
+                <li className="live-more">+{entries.length - MAX_ROWS} more</li>
+              )}
+              {entries.length === 0 && <li className="live-more">Nothing animating</li>}
+            </ul>
+
+            {current && (
+              <EasingPanel inset anims={[current.info]} index={0} onIndexChange={() => {}} />
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import { SLOOOW_SCRUB_RANGE } from '../../../src/shared/types'
+import { formatMs } from './EasingPanel'
+
+interface ScrubberProps {
+  value: number // ms offset from where scrubbing began
+  onChange: (offsetMs: number) => void
+}
+
+function formatOffset(ms: number): string {
+  return ms > 0 ? `+${formatMs(ms)}` : formatMs(ms)
+}
+
+// ── Scrubber ──────────────────────────────────────────────────────────
+// Native range input — keyboard and pointer handling come for free.
+// Centre (0) is the moment scrubbing began; either side moves page time.
+
+export function Scrubber({ value, onChange }: ScrubberProps) {
+  return (
+    <div className="scrubber">
+      <input
+        type="range"
+        className="scrubber-range"
+        min={-SLOOOW_SCRUB_RANGE}
+        max={SLOOOW_SCRUB_RANGE}
+        step={1}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        aria-label="Scrub page time"
+        aria-valuetext={formatOffset(value)}
+      />
+      <span className="scrubber-value">{formatOffset(value)}</span>
+    </div>
+  )
+}
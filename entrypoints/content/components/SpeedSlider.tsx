@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react'
+import type { SlooowSpeed } from '../../../src/shared/types'
+import { clampSpeed, speedToSlider, sliderToSpeed, formatSpeed, SPEED_SLIDER_STEPS } from '../../../src/shared/speed'
+import { TextField } from './TextField'
+
+interface SpeedSliderProps {
+  value: SlooowSpeed
+  onChange: (speed: SlooowSpeed) => void
+}
+
+// ── SpeedSlider ───────────────────────────────────────────────────────
+// Fine-grained rate control below the preset tabs: a log-scale range input
+// plus a numeric field for exact values (e.g. 0.33× to match a video).
+// The field keeps a local draft and only commits on Enter or blur.
+
+export function SpeedSlider({ value, onChange }: SpeedSliderProps) {
+  const [draft, setDraft] = useState(String(value))
+
+  // Keep the field in sync when the speed changes elsewhere (tabs, slider)
+  useEffect(() => setDraft(String(value)), [value])
+
+  function commit() {
+    const next = clampSpeed(parseFloat(draft))
+    if (next === null) {
+      setDraft(String(value)) // not a number — revert
+      return
+    }
+    setDraft(String(next))
+    if (next !== value) onChange(next)
+  }
+
+  return (
+    <div className="speed-slider">
+      <input
+        type="range"
+        className="scrubber-range"
+        min={0}
+        max={SPEED_SLIDER_STEPS}
+        step={1}
+        value={speedToSlider(value)}
+        onChange={(e) => onChange(sliderToSpeed(Number(e.target.value)))}
+        aria-label="Playback speed"
+        aria-valuetext={formatSpeed(value)}
+      />
+      <label className="speed-input">
+        <TextField
+          type="text"
+          inputMode="decimal"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit()
+            if (e.key === 'Escape') setDraft(String(value))
+          }}
+          aria-label="Playback speed (×)"
+        />
+        <span aria-hidden="true">×</span>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import { formatMs, type AnimInfo } from './EasingPanel'
+import { layoutTimeline, axisTicks } from '../lib/timeline'
+import { camelToKebab } from '../lib/css-utils'
+
+interface StaggerTimelineProps {
+  anims: AnimInfo[]
+  selected: number
+  onSelect: (idx: number) => void // opens that animation's curve
+}
+
+function rowLabel(info: AnimInfo): string {
+  const prop = info.name ?? (info.properties.length ? camelToKebab(info.properties[0]) : 'animation')
+  return info.target ? `${info.target} · ${prop}` : prop
+}
+
+function staggerLabel(stagger: { min: number; max: number } | null): string | null {
+  if (!stagger) return null
+  const min = Math.round(stagger.min)
+  const max = Math.round(stagger.max)
+  return min === max ? `stagger ${formatMs(min)}` : `stagger ${formatMs(min)}–${formatMs(max)}`
+}
+
+// ── StaggerTimeline ───────────────────────────────────────────────────
+// Gantt view of a captured group: one bar per animation, placed by delay
+// and active duration on a shared axis. Infinite animations show their
+// first iteration with an open end.
+
+export function StaggerTimeline({ anims, selected, onSelect }: StaggerTimelineProps) {
+  const layout = layoutTimeline(anims)
+  const ticks  = axisTicks(layout.total)
+  const pct    = (ms: number) => (layout.total > 0 ? (ms / layout.total) * 100 : 0)
+  const summary = [staggerLabel(layout.stagger), `total ${formatMs(Math.round(layout.total))}`]
+    .filter(Boolean)
+    .join(' · ')
+
+  return (
+    <div className="stagger">
+      <div className="stagger-rows">
+        {anims.map((info, i) => {
+          const bar = layout.bars[i]
+          return (
+            <button
+              key={i}
+              className={`stagger-row${i === selected ? ' is-selected' : ''}`}
+              onClick={() => onSelect(i)}
+              title={`${rowLabel(info)} · delay ${formatMs(info.delay)} · ${formatMs(info.duration)}`}
+            >
+              <span className="stagger-label">{rowLabel(info)}</span>
+              <span className="stagger-track">
+                <span
+                  className={`stagger-bar${bar.infinite ? ' is-infinite' : ''}`}
+                  style={{ left: `${pct(bar.start)}%`, width: `${pct(bar.end - bar.start)}%` }}
+                />
+              </span>
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="stagger-axis" aria-hidden="true">
+        {ticks.map(t => (
+          <span key={t} className="stagger-tick" style={{ left: `${pct(t)}%` }}>
+            {formatMs(t)}
+          </span>
+        ))}
+      </div>
+
+      <p className="stagger-summary">{summary}</p>
+    </div>
+  )
+}
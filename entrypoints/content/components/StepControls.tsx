@@ -0,0 +1,45 @@
+import { useState } from 'react'
+import { SLOOOW_STEP_SIZES } from '../../../src/shared/types'
+
+interface StepControlsProps {
+  onStep: (deltaMs: number) => void
+}
+
+// ── StepControls ──────────────────────────────────────────────────────
+// Shown while frozen at 0x. The outer buttons move every layer's clock
+// back/forward; the centre label cycles through the available step sizes.
+
+export function StepControls({ onStep }: StepControlsProps) {
+  const [sizeIndex, setSizeIndex] = useState(0)
+  const size = SLOOOW_STEP_SIZES[sizeIndex]
+
+  return (
+    <div className="step-controls">
+      <button
+        className="easing-nav-btn"
+        onClick={() => onStep(-size)}
+        aria-label={`Step back ${size}ms`}
+      >
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+          <polyline points="15 18 9 12 15 6" />
+        </svg>
+      </button>
+      <button
+        className="step-size"
+        onClick={() => setSizeIndex((sizeIndex + 1) % SLOOOW_STEP_SIZES.length)}
+        title="Step size — click to change"
+      >
+        {size}ms
+      </button>
+      <button
+        className="easing-nav-btn"
+        onClick={() => onStep(size)}
+        aria-label={`Step forward ${size}ms`}
+      >
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+          <polyline points="9 18 15 12 9 6" />
+        </svg>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import type { InputHTMLAttributes } from 'react'
+
+// ── TextField ─────────────────────────────────────────────────────────
+// Every typed-into field in the toolbar. Key presses stop here so the
+// page's own shortcuts don't react to typing; the field's own onKeyDown
+// still runs.
+
+export function TextField({ onKeyDown, ...props }: InputHTMLAttributes<HTMLInputElement>) {
+  return (
+    <input
+      {...props}
+      onKeyDown={(e) => {
+        e.stopPropagation()
+        onKeyDown?.(e)
+      }}
+    />
+  )
+}
@@ -0,0 +1,113 @@
+// Live easing edits. The bezier editor writes straight into the page's
+// Animation — effect.updateTiming() for the effect easing, setKeyframes()
+// for one keyframe's segment — and mirrors the change into the captured
+// AnimInfo so the history shows what's running. The first edit remembers
+// the original per Animation — the live list re-captures its AnimInfo on
+// every sample — so revert can put both back.
+
+import type { AnimInfo } from './components/EasingPanel'
+import { parseEasing } from './lib/easing-parser'
+import { liveAnimation } from './replay'
+
+// Which easing an edit targets: the effect's, or keyframe i's segment
+export type EasingTarget = { keyframe: number } | null
+
+interface Original {
+  rawEasing: string
+  keyframeEasings: string[]
+  timingEdited: boolean
+  keyframesEdited: boolean // setKeyframes() detaches a CSS animation from its @keyframes
+}
+
+const originals = new WeakMap<Animation, Original>()
+
+function liveEffect(anim: Animation | null): KeyframeEffect | null {
+  const effect = anim?.effect
+  return effect instanceof KeyframeEffect ? effect : null
+}
+
+export function canEditEasing(info: AnimInfo): boolean {
+  return info.kind !== 'gsap-tween' && liveEffect(liveAnimation(info)) !== null
+}
+
+export function isEasingEdited(info: AnimInfo): boolean {
+  const anim = liveAnimation(info)
+  return !!anim && originals.has(anim)
+}
+
+// Rewrites the given keyframes' easings, keeping offsets and values
+function setKeyframeEasings(effect: KeyframeEffect, easings: (string | undefined)[]): void {
+  const keyframes = effect.getKeyframes().map((kf, i) => {
+    const { computedOffset: _computed, ...rest } = kf
+    return easings[i] === undefined ? rest : { ...rest, easing: easings[i] }
+  })
+  effect.setKeyframes(keyframes)
+}
+
+// Applies `raw` to the page and the snapshot. Returns false if the easing
+// is invalid or the Animation is gone.
+export function editEasing(info: AnimInfo, target: EasingTarget, raw: string): boolean {
+  const anim = liveAnimation(info)
+  const effect = liveEffect(anim)
+  if (!anim || !effect) return false
+
+  const original = originals.get(anim) ?? {
+    rawEasing: info.rawEasing,
+    keyframeEasings: info.keyframes.map(kf => kf.rawEasing),
+    timingEdited: false,
+    keyframesEdited: false,
+  }
+
+  try {
+    if (target) {
+      const easings: (string | undefined)[] = []
+      easings[target.keyframe] = raw
+      setKeyframeEasings(effect, easings)
+    } else {
+      effect.updateTiming({ easing: raw })
+    }
+  } catch {
+    // TypeError for an easing the browser won't parse
+    return false
+  }
+
+  if (target) original.keyframesEdited = true
+  else original.timingEdited = true
+  originals.set(anim, original)
+
+  if (target) {
+    const kf = info.keyframes[target.keyframe]
+    if (kf) {
+      kf.rawEasing = raw
+      kf.easing = parseEasing(raw)
+    }
+  } else {
+    info.rawEasing = raw
+    info.easing = parseEasing(raw)
+  }
+  return true
+}
+
+// Restores the timing and keyframe easings captured before the first edit
+export function revertEasing(info: AnimInfo): void {
+  const anim = liveAnimation(info)
+  const original = anim && originals.get(anim)
+  if (!anim || !original) return
+  originals.delete(anim)
+
+  info.rawEasing = original.rawEasing
+  info.easing = parseEasing(original.rawEasing)
+  info.keyframes.forEach((kf, i) => {
+    kf.rawEasing = original.keyframeEasings[i] ?? kf.rawEasing
+    kf.easing = parseEasing(kf.rawEasing)
+  })
+
+  const effect = liveEffect(anim)
+  if (!effect) return
+  try {
+    if (original.timingEdited) effect.updateTiming({ easing: original.rawEasing })
+    if (original.keyframesEdited) setKeyframeEasings(effect, original.keyframeEasings)
+  } catch {
+    // The page replaced the effect's keyframes — nothing left to restore
+  }
+}
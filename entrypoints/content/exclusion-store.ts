@@ -0,0 +1,38 @@
+/**
+ * Selector exclusion rules, backed by the page's native localStorage.
+ *
+ * Unlike session state these are standing team rules ("never slow
+ * .marquee"), so they're kept per origin and survive closing the tab.
+ * Same reasoning as session-store.ts for not using chrome.storage.*.
+ */
+
+const KEY = '__slooow_exclusions'
+
+export function readExclusionRules(): string[] {
+  try {
+    const raw = localStorage.getItem(KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter((r): r is string => typeof r === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+export function writeExclusionRules(rules: string[]): void {
+  try {
+    if (rules.length) localStorage.setItem(KEY, JSON.stringify(rules))
+    else localStorage.removeItem(KEY)
+  } catch {
+    // Blocked (e.g. sandboxed iframe, storage quota) — silently ignore.
+  }
+}
+
+// Other same-origin frames pick up edits made from the top frame's toolbar
+export function onExclusionRulesChange(listener: (rules: string[]) => void): () => void {
+  const handler = (e: StorageEvent) => {
+    if (e.key === KEY) listener(readExclusionRules())
+  }
+  window.addEventListener('storage', handler)
+  return () => window.removeEventListener('storage', handler)
+}
@@ -0,0 +1,40 @@
+// Selector exclusion rules — the opposite of a scope. Animations and media
+// whose target matches a rule, or sits inside an element that does, are
+// never slowed. Pseudo-element animations report their host element as
+// effect.target, so ::before/::after follow their host's rule.
+
+let selector: string | null = null
+
+// Trimmed, de-duplicated, without blanks — the form rules are stored in
+export function normalizeRules(rules: string[]): string[] {
+  return Array.from(new Set(rules.map((r) => r.trim()).filter(Boolean)))
+}
+
+// One selector matching every rule target and everything inside it
+export function exclusionSelector(rules: string[]): string | null {
+  if (!rules.length) return null
+  const list = rules.join(', ')
+  return `:is(${list}), :is(${list}) *`
+}
+
+export function isValidSelector(rule: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(rule)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function setExclusionRules(rules: string[]): void {
+  selector = exclusionSelector(normalizeRules(rules).filter(isValidSelector))
+}
+
+export function isExcluded(el: Element | null | undefined): boolean {
+  return selector !== null && !!el && el.matches(selector)
+}
+
+// Every excluded element — for libraries that look animations up by target
+export function excludedElements(): Element[] {
+  return selector ? Array.from(document.querySelectorAll(selector)) : []
+}
@@ -1,97 +1,293 @@
-// ISOLATED world content script — runs at document_idle.
+// ISOLATED world content script — runs at document_idle, in every frame.
 // Responsibilities:
-//   1. Mount the floating Shadow DOM toolbar (React)
-//   2. Apply Layer 1 (WAAPI playback rates) and Layer 2 (GSAP timeScale)
+//   1. Mount the floating Shadow DOM toolbar (React) — top frame only
+//   2. Apply Layer 1 (WAAPI playback rates), Layer 4 (media playbackRate),
+//      Layer 5 (SVG SMIL timelines) and the library adapters (GSAP, Lottie,
+//      …), and step/scrub all layers together at 0x
 //   3. Relay speed changes to Layer 3 (rAF in inject.ts) via window.postMessage
 //   4. Listen for TOGGLE_TOOLBAR from the background SW
+//   5. Top frame: relay commands to child frames and collect their status.
+//      Child frames: follow FRAME_COMMANDs and report status back.
 
 import React from 'react'
 import { createRoot } from 'react-dom/client'
-import { SlooowSpeed, SLOOOW_TAG } from '../../src/shared/types'
-import { applyWAAPI, resetWAAPI, countWAAPI, setObserverEnabled, startWAAPIObserver } from './waapi'
-import { applyGSAP, resetGSAP, startGSAPPolling, stopGSAPPolling } from './gsap'
-import { sendSetSpeed } from './bridge'
+import { SlooowSpeed, SLOOOW_TAG, DEFAULT_MEDIA_OPTIONS, type MediaOptions, type FrameCommand, type FrameStatus, type ContentToBackground } from '../../src/shared/types'
+import { clampSpeed } from '../../src/shared/speed'
+import {
+  applyWAAPI, resetWAAPI, stepWAAPI, beginScrubWAAPI, seekWAAPI, endScrubWAAPI,
+  countWAAPI, setInterceptionEnabled, startWAAPIInterception, onSweep, setExemptRoot, setScope,
+} from './waapi'
+import {
+  applyMedia, resetMedia, stepMedia, seekMedia, endScrubMedia, countMedia,
+  setMediaOptions, startMediaListener, stopMediaListener,
+} from './media'
+import {
+  applyAdapters, resetAdapters, stepAdapters, seekAdapters, endScrubAdapters, describeAdapters,
+  startAdapterPolling, stopAdapterPolling, type ClockCoverage,
+} from './adapters'
+import { applySMIL, resetSMIL, stepSMIL, countSMIL } from './smil'
+import { sendSetSpeed, sendStep, sendSetTimeVirtualization } from './bridge'
 import { Toolbar } from './Toolbar'
 import { readSessionState, writeSessionState } from './session-store'
+import { readExclusionRules, writeExclusionRules, onExclusionRulesChange } from './exclusion-store'
+import { setExclusionRules } from './exclusions'
 import toolbarStyles from './toolbar.css?inline'
 
 export default defineContentScript({
   matches: ['<all_urls>'],
   runAt: 'document_idle',
+  allFrames: true,
+  matchAboutBlank: true,
   cssInjectionMode: 'ui',
 
   async main(ctx) {
-    // Top-frame only — prevent duplicate toolbars inside iframes
-    if (window !== window.top) return
+    // Layers run in every frame; only the top frame mounts a toolbar and owns
+    // state. Child frames start idle and wait for the top frame's sync.
+    const isTopFrame = window === window.top
 
     // ── Restore persisted session state ───────────────────────────────
-    const stored = await readSessionState()
+    // Child frames skip this: their sessionStorage belongs to the child's origin.
+    const stored = isTopFrame ? await readSessionState() : null
     let visible            = stored?.visible ?? false
-    let currentSpeed: SlooowSpeed | null = stored?.enabled ? (stored.speed ?? 0.25) : null
-    let persistedSpeed: SlooowSpeed      = stored?.speed   ?? 0.25
-    let gsapDetected = false
+    // Stored speed is re-clamped — older builds or a hand-edited entry may hold anything
+    const storedSpeed: SlooowSpeed       = clampSpeed(stored?.speed ?? NaN) ?? 0.25
+    let currentSpeed: SlooowSpeed | null = stored?.enabled ? storedSpeed : null
+    let persistedSpeed: SlooowSpeed      = storedSpeed
+    let timeVirtualized = stored?.timeVirtualized ?? false
+    let mediaOptions: MediaOptions = stored?.media ?? DEFAULT_MEDIA_OPTIONS
+    setMediaOptions(mediaOptions)
+    // Scoped slow-motion target (top frame only) — WAAPI and GSAP stay inside it
+    let scopeElement: Element | null = null
+    // Selector exclusion rules — per origin, so every frame reads its own
+    let exclusionRules = readExclusionRules()
+    setExclusionRules(exclusionRules)
 
     // ── Read inject.ts status synchronously ───────────────────────────
     const rafIntercepted = !!(window as any).__slooowToken
-    const initialGSAPDetected = typeof (window as any).gsap !== 'undefined'
-    gsapDetected = initialGSAPDetected
 
-    dispatchStatusEvent({ rafIntercepted, gsapDetected, animationCount: countWAAPI() })
+    // Which shared clocks already slow the libraries — see adapters/index.ts
+    function clockCoverage(): ClockCoverage {
+      return { rafIntercepted, timeVirtualized }
+    }
+
+    // Top frame: status goes straight to the toolbar.
+    // Child frames: merged into one snapshot and sent up to the top frame.
+    const frameStatus: FrameStatus = {
+      rafIntercepted, adapters: [], animationCount: 0, mediaCount: 0, smilCount: 0,
+    }
+
+    function publishStatus(detail: Partial<FrameStatus>): void {
+      if (isTopFrame) {
+        dispatchStatusEvent(detail)
+        return
+      }
+      Object.assign(frameStatus, detail)
+      sendToBackground({ type: 'FRAME_STATUS', status: frameStatus })
+    }
+
+    publishStatus({
+      rafIntercepted,
+      adapters: describeAdapters(clockCoverage()),
+      animationCount: countWAAPI(),
+      mediaCount: countMedia(),
+      smilCount: countSMIL(),
+    })
+
+    // Adapter list only goes out when it changed (detection, applied state)
+    let lastAdapters = JSON.stringify(frameStatus.adapters)
+
+    function publishAdapters(): void {
+      const adapters = describeAdapters(clockCoverage())
+      const json = JSON.stringify(adapters)
+      if (json === lastAdapters) return
+      lastAdapters = json
+      publishStatus({ adapters })
+    }
 
     // ── Layer coordination ─────────────────────────────────────────────
     function applyAllLayers(speed: SlooowSpeed | null): void {
       const effectiveSpeed = speed ?? 1
+      if (speed !== 0) endScrub() // leaving the freeze ends any scrub session
 
       // Layer 1: WAAPI
       if (speed === null) {
         resetWAAPI()
-        setObserverEnabled(false)
+        setInterceptionEnabled(false)
       } else {
         applyWAAPI(effectiveSpeed)
-        setObserverEnabled(true)
+        setInterceptionEnabled(true)
       }
 
-      // Layer 2: GSAP
+      // Layer 3: rAF (MAIN world — via postMessage)
+      sendSetSpeed(effectiveSpeed)
+
+      // Layer 4: media — its own clock, so time virtualization doesn't reach it
       if (speed === null) {
-        resetGSAP()
+        resetMedia()
       } else {
-        const applied = applyGSAP(effectiveSpeed)
-        if (applied && !gsapDetected) {
-          gsapDetected = true
-          dispatchStatusEvent({ gsapDetected: true })
-        }
+        applyMedia(effectiveSpeed)
       }
 
-      // Layer 3: rAF (MAIN world — via postMessage)
-      sendSetSpeed(effectiveSpeed)
+      // Layer 5: SMIL — roots are paused and driven from our own virtual clock
+      if (speed === null) {
+        resetSMIL()
+      } else {
+        applySMIL(effectiveSpeed)
+      }
+
+      // Library adapters (GSAP timeScale, …)
+      if (speed === null) {
+        resetAdapters()
+      } else {
+        applyAdapters(effectiveSpeed, clockCoverage(), scopeElement)
+      }
+      publishAdapters()
     }
 
-    // ── GSAP detection polling (lazy-loaded libraries) ─────────────────
-    if (!gsapDetected) {
-      startGSAPPolling((detected) => {
-        if (detected) {
-          gsapDetected = true
-          dispatchStatusEvent({ gsapDetected: true })
-          if (currentSpeed !== null) applyGSAP(currentSpeed)
-        }
-      })
+    // Drops every baseline so animations leaving the scope (or newly
+    // excluded) return to their own rate, then re-applies to the new set
+    function reapplyAllLayers(): void {
+      if (currentSpeed === null) return
+      resetWAAPI()
+      resetMedia()
+      resetAdapters()
+      applyAllLayers(currentSpeed)
+    }
+
+    function setScopeElement(el: Element | null): void {
+      scopeElement = el
+      setScope(el)
+      reapplyAllLayers()
+    }
+
+    function updateExclusionRules(rules: string[]): void {
+      exclusionRules = rules
+      setExclusionRules(rules)
+      reapplyAllLayers()
+    }
+    const stopExclusionSync = onExclusionRulesChange(updateExclusionRules)
+
+    // Moves every layer's clock by the same amount — frame-by-frame stepping at 0x
+    function stepAllLayers(deltaMs: number): void {
+      endScrub()
+      stepWAAPI(deltaMs)
+      stepAdapters(deltaMs, clockCoverage()) // clock-driven libraries move with sendStep
+      sendStep(deltaMs)
+      stepMedia(deltaMs)
+      stepSMIL(deltaMs)
+    }
+
+    // ── Global scrub ──────────────────────────────────────────────────
+    // A scrub session freezes the page at 0x and seeks every layer relative
+    // to where it stood when scrubbing began. WAAPI and adapters seek to absolute
+    // positions; the rAF clock is moved by the difference between successive
+    // offsets, which is exact because it's frozen in between.
+    let scrubOffset: number | null = null
+
+    function scrubAllLayers(offsetMs: number): void {
+      if (scrubOffset === null) {
+        currentSpeed = 0
+        applyAllLayers(0)
+        beginScrubWAAPI()
+        scrubOffset = 0
+      }
+      seekWAAPI(offsetMs)
+      seekAdapters(offsetMs, clockCoverage())
+      sendStep(offsetMs - scrubOffset)
+      seekMedia(offsetMs)
+      stepSMIL(offsetMs - scrubOffset)
+      scrubOffset = offsetMs
+    }
+
+    function endScrub(): void {
+      if (scrubOffset === null) return
+      scrubOffset = null
+      endScrubWAAPI()
+      endScrubAdapters()
+      endScrubMedia()
+    }
+
+    function setTimeVirtualization(enabled: boolean): void {
+      timeVirtualized = enabled
+      sendSetTimeVirtualization(enabled)
+      // Re-apply so 'date' adapters (GSAP) switch between their own speed and the virtual clock
+      if (currentSpeed !== null) applyAllLayers(currentSpeed)
     }
 
-    // ── WAAPI observer for dynamically added animations ────────────────
-    startWAAPIObserver(() => currentSpeed ?? 1)
+    // ── Adapter detection polling (lazy-loaded libraries) ──────────────
+    startAdapterPolling(() => {
+      if (currentSpeed !== null) applyAdapters(currentSpeed, clockCoverage(), scopeElement)
+      publishAdapters()
+    })
+
+    // ── WAAPI interception for newly created animations ────────────────
+    startWAAPIInterception(() => currentSpeed ?? 1)
+
+    // ── Media, SMIL roots and late players picked up by the fallback sweep
+    onSweep((speed) => {
+      applyMedia(speed)
+      applySMIL(speed)
+      applyAdapters(speed, clockCoverage(), scopeElement)
+      publishAdapters()
+    })
+    startMediaListener(() => currentSpeed)
 
     // ── Listen for status reports from MAIN world (SPA re-navigation) ──
     function handleStatusMessage(e: MessageEvent) {
       if (e.source !== window) return
       const d = e.data
       if (!d || d.tag !== SLOOOW_TAG || d.type !== 'SLOOOW_STATUS_REPORT') return
-      if (d.gsapDetected && !gsapDetected) {
-        gsapDetected = true
-        dispatchStatusEvent({ gsapDetected: true })
-      }
+      if (currentSpeed !== null) applyAdapters(currentSpeed, clockCoverage(), scopeElement)
+      publishAdapters()
     }
     window.addEventListener('message', handleStatusMessage)
 
+    // ── Child frames: follow the top frame ─────────────────────────────
+    if (!isTopFrame) {
+      chrome.runtime.onMessage.addListener((message) => {
+        try {
+          if (message?.type !== 'FRAME_COMMAND') return
+          const command = message.command as FrameCommand
+          if (command.kind === 'sync') {
+            if (command.timeVirtualized !== timeVirtualized) setTimeVirtualization(command.timeVirtualized)
+            mediaOptions = command.media
+            setMediaOptions(mediaOptions)
+            currentSpeed = command.speed
+            applyAllLayers(command.speed)
+            publishStatus({ animationCount: countWAAPI(), mediaCount: countMedia(), smilCount: countSMIL() })
+          } else if (command.kind === 'step') {
+            stepAllLayers(command.deltaMs)
+          } else if (command.kind === 'scrub') {
+            scrubAllLayers(command.offsetMs)
+          }
+        } catch {
+          // Extension context invalidated — silently ignore.
+        }
+      })
+      // Ask the top frame for current state — it may already be slowed
+      sendToBackground({ type: 'FRAME_HELLO' })
+      // Removed or navigated away: the top frame stops counting this frame.
+      // Back from the bfcache: say hello again and re-report.
+      window.addEventListener('pagehide', () => sendToBackground({ type: 'FRAME_GOODBYE' }))
+      window.addEventListener('pageshow', (e) => {
+        if (!e.persisted) return
+        sendToBackground({ type: 'FRAME_HELLO' })
+        sendToBackground({ type: 'FRAME_STATUS', status: frameStatus })
+      })
+      return
+    }
+
+    // ── Top frame: relay to child frames ───────────────────────────────
+    const frameStatuses = new Map<number, FrameStatus>()
+
+    function broadcastToFrames(command: FrameCommand, frameId?: number): void {
+      sendToBackground({ type: 'FRAME_BROADCAST', command, frameId })
+    }
+
+    function syncCommand(): FrameCommand {
+      return { kind: 'sync', speed: currentSpeed, timeVirtualized, media: mediaOptions }
+    }
+
     // ── Toolbar mount via Shadow DOM ───────────────────────────────────
     let themeObserver: MutationObserver | null = null
     const ui = await createShadowRootUi(ctx, {
@@ -102,20 +298,51 @@ export default defineContentScript({
         const style = document.createElement('style')
         style.textContent = toolbarStyles
         shadow.prepend(style)
+        // The toolbar's own framer-motion animations stay at real time
+        setExemptRoot(shadow)
 
         const root = createRoot(container)
         root.render(
           <Toolbar
             initialEnabled={stored?.enabled ?? false}
-            initialSpeed={stored?.speed ?? 0.25}
+            initialSpeed={storedSpeed}
+            initialTimeVirtualized={timeVirtualized}
+            initialMediaOptions={mediaOptions}
             onSpeedChange={(speed) => {
               currentSpeed = speed
               applyAllLayers(speed)
-              dispatchStatusEvent({ animationCount: countWAAPI() })
+              broadcastToFrames(syncCommand())
+              dispatchStatusEvent({ animationCount: countWAAPI(), mediaCount: countMedia(), smilCount: countSMIL() })
+            }}
+            onScopeChange={setScopeElement}
+            initialExclusionRules={exclusionRules}
+            onExclusionRulesChange={(rules) => {
+              writeExclusionRules(rules)
+              updateExclusionRules(rules)
+            }}
+            onStep={(deltaMs) => {
+              stepAllLayers(deltaMs)
+              broadcastToFrames({ kind: 'step', deltaMs })
+            }}
+            onScrub={(offsetMs) => {
+              scrubAllLayers(offsetMs)
+              broadcastToFrames({ kind: 'scrub', offsetMs })
+            }}
+            onTimeVirtualizationChange={(enabled) => {
+              setTimeVirtualization(enabled)
+              writeSessionState({ visible, enabled: currentSpeed !== null, speed: persistedSpeed, timeVirtualized, media: mediaOptions })
+              broadcastToFrames(syncCommand())
+            }}
+            onMediaOptionsChange={(options) => {
+              mediaOptions = options
+              setMediaOptions(options)
+              if (currentSpeed !== null) applyMedia(currentSpeed)
+              writeSessionState({ visible, enabled: currentSpeed !== null, speed: persistedSpeed, timeVirtualized, media: mediaOptions })
+              broadcastToFrames(syncCommand())
             }}
             onStateChange={({ enabled, speed }) => {
               persistedSpeed = speed
-              writeSessionState({ visible, enabled, speed })
+              writeSessionState({ visible, enabled, speed, timeVirtualized, media: mediaOptions })
             }}
           />
         )
@@ -123,13 +350,18 @@ export default defineContentScript({
       },
       onRemove(root) {
         root?.unmount()
+        setExemptRoot(null)
+        setScope(null)
+        stopExclusionSync()
         themeObserver?.disconnect()
-        stopGSAPPolling()
+        stopAdapterPolling()
+        stopMediaListener()
         window.removeEventListener('message', handleStatusMessage)
       },
     })
 
     // Apply layers immediately if the session had slow-mo enabled
+    if (timeVirtualized) sendSetTimeVirtualization(true)
     if (currentSpeed !== null) {
       applyAllLayers(currentSpeed)
     }
@@ -146,13 +378,15 @@ export default defineContentScript({
     function toggleToolbar(): void {
       visible = !visible
       hostEl.style.display = visible ? '' : 'none'
-      writeSessionState({ visible, enabled: currentSpeed !== null, speed: persistedSpeed })
+      writeSessionState({ visible, enabled: currentSpeed !== null, speed: persistedSpeed, timeVirtualized, media: mediaOptions })
       if (visible) {
         document.dispatchEvent(new CustomEvent('slooow:set-enabled', { detail: { enabled: true } }))
         dispatchStatusEvent({
           rafIntercepted: !!(window as any).__slooowToken,
-          gsapDetected,
+          adapters: describeAdapters(clockCoverage()),
           animationCount: countWAAPI(),
+          mediaCount: countMedia(),
+          smilCount: countSMIL(),
         })
       }
     }
@@ -162,7 +396,18 @@ export default defineContentScript({
     // still open, chrome.runtime becomes invalid and any access throws.
     chrome.runtime.onMessage.addListener((message) => {
       try {
-        if (message?.type === 'TOGGLE_TOOLBAR') toggleToolbar()
+        if (message?.type === 'TOGGLE_TOOLBAR') {
+          toggleToolbar()
+        } else if (message?.type === 'FRAME_HELLO') {
+          broadcastToFrames(syncCommand(), message.frameId)
+        } else if (message?.type === 'FRAME_STATUS') {
+          frameStatuses.set(message.frameId, message.status)
+          dispatchStatusEvent({ frames: Array.from(frameStatuses.values()) })
+        } else if (message?.type === 'FRAME_GOODBYE') {
+          if (frameStatuses.delete(message.frameId)) {
+            dispatchStatusEvent({ frames: Array.from(frameStatuses.values()) })
+          }
+        }
       } catch {
         // Extension context invalidated — silently ignore.
       }
@@ -195,3 +440,12 @@ export default defineContentScript({
 function dispatchStatusEvent(detail: Record<string, unknown>): void {
   document.dispatchEvent(new CustomEvent('slooow:status', { detail }))
 }
+
+// Same context-invalidation guard as the onMessage listeners
+function sendToBackground(message: ContentToBackground): void {
+  try {
+    chrome.runtime.sendMessage(message).catch(() => {})
+  } catch {
+    // Extension context invalidated — silently ignore.
+  }
+}
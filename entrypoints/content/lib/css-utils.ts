@@ -3,3 +3,11 @@ export function camelToKebab(s: string): string {
   if (s.startsWith('--')) return s
   return s.replace(/([A-Z])/g, c => '-' + c.toLowerCase())
 }
+
+/** tag#id.class.class — enough to recognise an element at a glance. At most two classes. */
+export function describeElement(el: Element): string {
+  const tag = el.tagName.toLowerCase()
+  const id = el.id ? `#${el.id}` : ''
+  const classes = Array.from(el.classList).slice(0, 2).map(c => `.${c}`).join('')
+  return `${tag}${id}${classes}`
+}
@@ -0,0 +1,117 @@
+// Evaluates a parsed easing at input progress t, following CSS Easing
+// Level 2: cubic-bezier solved for x with linear extrapolation outside
+// [0, 1], linear() interpolated (and extrapolated) between its control
+// points, and steps() with every jump position plus the before flag.
+
+import type { CubicBezierEasing, LinearEasing, ParsedEasing, StepsEasing } from './easing-parser'
+
+const EPSILON = 1e-7
+
+// ── cubic-bezier ──────────────────────────────────────────────────────
+
+// One axis of the curve at parameter u, endpoints fixed at 0 and 1
+function bezierAt(p1: number, p2: number, u: number): number {
+  const v = 1 - u
+  return 3 * v * v * u * p1 + 3 * v * u * u * p2 + u * u * u
+}
+
+function bezierSlope(p1: number, p2: number, u: number): number {
+  const v = 1 - u
+  return 3 * v * v * p1 + 6 * v * u * (p2 - p1) + 3 * u * u * (1 - p2)
+}
+
+// Parameter u whose x is `x` — Newton's method, bisection if it stalls.
+// x1/x2 lie in [0, 1] (parseEasing rejects anything else), so x(u) is
+// monotonic and the root unique.
+function solveX(x1: number, x2: number, x: number): number {
+  let u = x
+  for (let i = 0; i < 8; i++) {
+    const err = bezierAt(x1, x2, u) - x
+    if (Math.abs(err) < EPSILON) return u
+    const slope = bezierSlope(x1, x2, u)
+    if (Math.abs(slope) < 1e-6) break
+    u -= err / slope
+    if (u < 0 || u > 1) break
+  }
+
+  let lo = 0
+  let hi = 1
+  u = x
+  while (hi - lo > EPSILON) {
+    if (bezierAt(x1, x2, u) < x) lo = u
+    else hi = u
+    u = (lo + hi) / 2
+  }
+  return u
+}
+
+function evaluateCubicBezier({ x1, y1, x2, y2 }: CubicBezierEasing, t: number): number {
+  // Outside [0, 1] the curve continues along its end tangents
+  if (t < 0) {
+    if (x1 > 0) return (y1 / x1) * t
+    if (y1 === 0 && x2 > 0) return (y2 / x2) * t
+    return 0
+  }
+  if (t > 1) {
+    if (x2 < 1) return 1 + ((y2 - 1) / (x2 - 1)) * (t - 1)
+    if (y2 === 1 && x1 < 1) return 1 + ((y1 - 1) / (x1 - 1)) * (t - 1)
+    return 1
+  }
+  if (x1 === y1 && x2 === y2) return t
+  return bezierAt(y1, y2, solveX(x1, x2, t))
+}
+
+// ── linear() ──────────────────────────────────────────────────────────
+
+function evaluateLinear({ stops }: LinearEasing, t: number): number {
+  if (!stops.length) return t
+  if (stops.length === 1) return stops[0].value
+
+  // Last point at or before t; the first and last pair extend outwards
+  let a = 0
+  for (let i = 0; i < stops.length; i++) {
+    if (stops[i].position <= t) a = i
+  }
+  if (a === stops.length - 1) a--
+
+  const from = stops[a]
+  const to = stops[a + 1]
+  if (from.position === to.position) return to.value
+  const progress = (t - from.position) / (to.position - from.position)
+  return from.value + progress * (to.value - from.value)
+}
+
+// ── steps() ───────────────────────────────────────────────────────────
+
+// `before` is the before flag: true while an animation hasn't started yet
+// (e.g. in its delay phase), which holds jump-start at its first step
+function evaluateSteps({ count, direction }: StepsEasing, t: number, before: boolean): number {
+  const jumps =
+    direction === 'jump-none' ? count - 1 :
+    direction === 'jump-both' ? count + 1 :
+    count
+
+  let step = Math.floor(t * count)
+  if (direction === 'jump-start' || direction === 'jump-both') step += 1
+  if (before && Number.isInteger(t * count)) step -= 1
+  if (t >= 0 && step < 0) step = 0
+  if (t <= 1 && step > jumps) step = jumps
+  return step / jumps
+}
+
+// ── Entry point ───────────────────────────────────────────────────────
+
+// Output progress at input progress t. Unrecognised easings act as linear.
+export function evaluateEasing(easing: ParsedEasing, t: number, before = false): number {
+  switch (easing.type) {
+    case 'cubic-bezier': return evaluateCubicBezier(easing, t)
+    case 'linear':       return evaluateLinear(easing, t)
+    case 'steps':        return evaluateSteps(easing, t, before)
+    default:             return t
+  }
+}
+
+// x positions where a step easing jumps — its path is flat in between
+export function stepEdges({ count }: StepsEasing): number[] {
+  return Array.from({ length: count + 1 }, (_, i) => i / count)
+}
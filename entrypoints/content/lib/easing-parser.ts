@@ -1,5 +1,8 @@
 // Parses CSS animation-timing-function strings into structured data
-// for rendering as bezier curves, linear segments, or staircase steps.
+// for rendering as bezier curves, linear segments, or staircase steps,
+// and matches curves against a catalog of well-known named easings.
+
+import { evaluateEasing } from './easing-eval'
 
 export type CubicBezierEasing = {
   type: 'cubic-bezier'
@@ -18,9 +21,12 @@ export type LinearEasing = {
 export type StepsEasing = {
   type: 'steps'
   count: number
-  direction: 'start' | 'end' | 'both' | 'none'
+  direction: StepPosition
 }
 
+// CSS Easing Level 2 step positions — `start`/`end` parse as jump-start/jump-end
+export type StepPosition = 'jump-start' | 'jump-end' | 'jump-both' | 'jump-none'
+
 export type UnknownEasing = { type: 'unknown'; raw: string }
 
 export type ParsedEasing = CubicBezierEasing | LinearEasing | StepsEasing | UnknownEasing
@@ -46,26 +52,28 @@ export function parseEasing(raw: string): ParsedEasing {
     return { type: 'cubic-bezier', x1: named[0], y1: named[1], x2: named[2], y2: named[3], name: s }
   }
 
-  // cubic-bezier(x1, y1, x2, y2) — y values can be outside [0,1] for overshoot
+  // cubic-bezier(x1, y1, x2, y2) — y values can be outside [0,1] for overshoot,
+  // x values can't (CSS Easing Level 2: the function is invalid otherwise)
   const cb = s.match(/^cubic-bezier\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)$/)
   if (cb) {
     const [x1, y1, x2, y2] = cb.slice(1).map(Number)
-    if (![x1, y1, x2, y2].some(isNaN)) {
+    if (![x1, y1, x2, y2].some(isNaN) && [x1, x2].every(x => x >= 0 && x <= 1)) {
       return { type: 'cubic-bezier', x1, y1, x2, y2 }
     }
   }
 
   // step-start / step-end shorthand
-  if (s === 'step-start') return { type: 'steps', count: 1, direction: 'start' }
-  if (s === 'step-end')   return { type: 'steps', count: 1, direction: 'end' }
+  if (s === 'step-start') return { type: 'steps', count: 1, direction: 'jump-start' }
+  if (s === 'step-end')   return { type: 'steps', count: 1, direction: 'jump-end' }
 
-  // steps(n) or steps(n, direction)
-  const steps = s.match(/^steps\(\s*(\d+)(?:\s*,\s*(start|end|both|none))?\s*\)$/)
+  // steps(n) or steps(n, <step-position>) — jump-none needs at least 2 steps
+  const steps = s.match(/^steps\(\s*(\d+)(?:\s*,\s*(jump-start|jump-end|jump-both|jump-none|start|end))?\s*\)$/)
   if (steps) {
-    return {
-      type: 'steps',
-      count: parseInt(steps[1], 10),
-      direction: (steps[2] as StepsEasing['direction']) ?? 'end',
+    const count = parseInt(steps[1], 10)
+    const position = steps[2] ?? 'end'
+    const direction = (position.startsWith('jump-') ? position : `jump-${position}`) as StepPosition
+    if (count >= 1 && !(direction === 'jump-none' && count < 2)) {
+      return { type: 'steps', count, direction }
     }
   }
 
@@ -106,11 +114,23 @@ function parseLinearFn(s: string): LinearEasing['stops'] | null {
     }
   }
 
-  if (!flat.length) return null
+  // linear() needs at least two control points
+  if (flat.length < 2) return null
 
-  // Per CSS spec: first stop defaults to 0, last to 1
+  // Per CSS spec: first stop defaults to 0, last to max(1, largest position)
   if (flat[0].position === null) flat[0].position = 0
-  if (flat[flat.length - 1].position === null) flat[flat.length - 1].position = 1
+  const last = flat[flat.length - 1]
+  if (last.position === null) {
+    last.position = Math.max(1, ...flat.map(f => f.position ?? -Infinity))
+  }
+
+  // Positions never run backwards — a smaller one is raised to the largest so far
+  let largest = -Infinity
+  for (const f of flat) {
+    if (f.position === null) continue
+    if (f.position < largest) f.position = largest
+    largest = f.position
+  }
 
   // Linearly interpolate remaining nulls between known positions
   let i = 0
@@ -130,3 +150,117 @@ function parseLinearFn(s: string): LinearEasing['stops'] | null {
 
   return flat.map(f => ({ value: f.value, position: f.position! }))
 }
+
+// ── Named easing catalog ──────────────────────────────────────────────
+// Cubic-bezier forms of well-known easings. Penner's equations (and GSAP's
+// power eases, which are the same polynomials) aren't beziers — these are
+// the usual approximations (easings.net, Ceaser). Where two systems share
+// a curve it's listed once and the other system's name is an alias.
+
+export interface NamedEasing {
+  name: string
+  family: 'CSS' | 'Penner' | 'Material' | 'GSAP'
+  bezier: readonly [number, number, number, number]
+  aliases?: readonly string[] // the same curve's name elsewhere, system included
+}
+
+export const EASING_CATALOG: readonly NamedEasing[] = [
+  { name: 'linear',      family: 'CSS', bezier: [0, 0, 1, 1] },
+  { name: 'ease',        family: 'CSS', bezier: NAMED.ease, aliases: ['Apple default'] },
+  { name: 'ease-in',     family: 'CSS', bezier: NAMED['ease-in'], aliases: ['Apple easeIn'] },
+  { name: 'ease-out',    family: 'CSS', bezier: NAMED['ease-out'], aliases: ['Apple easeOut'] },
+  { name: 'ease-in-out', family: 'CSS', bezier: NAMED['ease-in-out'], aliases: ['Apple easeInEaseOut'] },
+
+  { name: 'easeInSine',     family: 'Penner', bezier: [0.12, 0, 0.39, 0] },
+  { name: 'easeOutSine',    family: 'Penner', bezier: [0.61, 1, 0.88, 1] },
+  { name: 'easeInOutSine',  family: 'Penner', bezier: [0.37, 0, 0.63, 1] },
+  { name: 'easeInQuad',     family: 'Penner', bezier: [0.11, 0, 0.5, 0] },
+  { name: 'easeOutQuad',    family: 'Penner', bezier: [0.5, 1, 0.89, 1] },
+  { name: 'easeInOutQuad',  family: 'Penner', bezier: [0.45, 0, 0.55, 1] },
+  { name: 'easeInCubic',    family: 'Penner', bezier: [0.32, 0, 0.67, 0] },
+  { name: 'easeOutCubic',   family: 'Penner', bezier: [0.33, 1, 0.68, 1] },
+  { name: 'easeInOutCubic', family: 'Penner', bezier: [0.65, 0, 0.35, 1] },
+  { name: 'easeInQuart',    family: 'Penner', bezier: [0.5, 0, 0.75, 0] },
+  { name: 'easeOutQuart',   family: 'Penner', bezier: [0.25, 1, 0.5, 1] },
+  { name: 'easeInOutQuart', family: 'Penner', bezier: [0.76, 0, 0.24, 1] },
+  { name: 'easeInQuint',    family: 'Penner', bezier: [0.64, 0, 0.78, 0] },
+  { name: 'easeOutQuint',   family: 'Penner', bezier: [0.22, 1, 0.36, 1] },
+  { name: 'easeInOutQuint', family: 'Penner', bezier: [0.83, 0, 0.17, 1] },
+  { name: 'easeInExpo',     family: 'Penner', bezier: [0.7, 0, 0.84, 0] },
+  { name: 'easeOutExpo',    family: 'Penner', bezier: [0.16, 1, 0.3, 1] },
+  { name: 'easeInOutExpo',  family: 'Penner', bezier: [0.87, 0, 0.13, 1] },
+  { name: 'easeInCirc',     family: 'Penner', bezier: [0.55, 0, 1, 0.45] },
+  { name: 'easeOutCirc',    family: 'Penner', bezier: [0, 0.55, 0.45, 1] },
+  { name: 'easeInOutCirc',  family: 'Penner', bezier: [0.85, 0, 0.15, 1] },
+  { name: 'easeInBack',     family: 'Penner', bezier: [0.36, 0, 0.66, -0.56] },
+  { name: 'easeOutBack',    family: 'Penner', bezier: [0.34, 1.56, 0.64, 1] },
+  { name: 'easeInOutBack',  family: 'Penner', bezier: [0.68, -0.6, 0.32, 1.6] },
+
+  { name: 'standard',              family: 'Material', bezier: [0.4, 0, 0.2, 1], aliases: ['Tailwind ease-in-out'] },
+  { name: 'decelerate',            family: 'Material', bezier: [0, 0, 0.2, 1], aliases: ['Tailwind ease-out'] },
+  { name: 'accelerate',            family: 'Material', bezier: [0.4, 0, 1, 1], aliases: ['Tailwind ease-in'] },
+  { name: 'sharp',                 family: 'Material', bezier: [0.4, 0, 0.6, 1] },
+  { name: 'M3 standard',           family: 'Material', bezier: [0.2, 0, 0, 1] },
+  { name: 'M3 standard-decelerate', family: 'Material', bezier: [0, 0, 0, 1] },
+  { name: 'M3 standard-accelerate', family: 'Material', bezier: [0.3, 0, 1, 1] },
+  { name: 'M3 emphasized-decelerate', family: 'Material', bezier: [0.05, 0.7, 0.1, 1] },
+  { name: 'M3 emphasized-accelerate', family: 'Material', bezier: [0.3, 0, 0.8, 0.15] },
+
+  { name: 'power1.in',    family: 'GSAP', bezier: [0.55, 0.085, 0.68, 0.53] },
+  { name: 'power1.out',   family: 'GSAP', bezier: [0.25, 0.46, 0.45, 0.94] },
+  { name: 'power1.inOut', family: 'GSAP', bezier: [0.455, 0.03, 0.515, 0.955] },
+  { name: 'power2.in',    family: 'GSAP', bezier: [0.55, 0.055, 0.675, 0.19] },
+  { name: 'power2.out',   family: 'GSAP', bezier: [0.215, 0.61, 0.355, 1] },
+  { name: 'power2.inOut', family: 'GSAP', bezier: [0.645, 0.045, 0.355, 1] },
+  { name: 'power3.in',    family: 'GSAP', bezier: [0.895, 0.03, 0.685, 0.22] },
+  { name: 'power3.out',   family: 'GSAP', bezier: [0.165, 0.84, 0.44, 1] },
+  { name: 'power3.inOut', family: 'GSAP', bezier: [0.77, 0, 0.175, 1] },
+  { name: 'power4.in',    family: 'GSAP', bezier: [0.755, 0.05, 0.855, 0.06] },
+  { name: 'power4.out',   family: 'GSAP', bezier: [0.23, 1, 0.32, 1] },
+  { name: 'power4.inOut', family: 'GSAP', bezier: [0.86, 0, 0.07, 1] },
+]
+
+// Curves within this distance count as the same easing (rounded control points)
+export const EXACT_MATCH_DISTANCE = 0.005
+// Beyond this the closest entry is too far off to be worth naming
+export const NEAR_MATCH_DISTANCE = 0.05
+
+export interface EasingMatch {
+  easing: NamedEasing
+  distance: number // largest output difference over the sampled inputs
+  exact: boolean
+}
+
+const MATCH_SAMPLES = 32
+
+// Display name — CSS keywords and Penner names stand alone, others carry
+// their system; aliases follow, e.g. "Material standard / Tailwind ease-in-out"
+export function namedEasingLabel({ name, family, aliases = [] }: NamedEasing): string {
+  const own = family === 'CSS' || family === 'Penner' ? name : `${family} ${name}`
+  return [own, ...aliases].join(' / ')
+}
+
+// Largest vertical gap between two easings, sampled across [0, 1]
+export function easingDistance(a: ParsedEasing, b: ParsedEasing): number {
+  let max = 0
+  for (let i = 0; i <= MATCH_SAMPLES; i++) {
+    const t = i / MATCH_SAMPLES
+    max = Math.max(max, Math.abs(evaluateEasing(a, t) - evaluateEasing(b, t)))
+  }
+  return max
+}
+
+// Closest catalog entry to a cubic-bezier or linear() curve, or null when
+// nothing is within `maxDistance`. Steps and unknown easings never match.
+export function matchNamedEasing(easing: ParsedEasing, maxDistance = NEAR_MATCH_DISTANCE): EasingMatch | null {
+  if (easing.type !== 'cubic-bezier' && easing.type !== 'linear') return null
+  let best: EasingMatch | null = null
+  for (const entry of EASING_CATALOG) {
+    const [x1, y1, x2, y2] = entry.bezier
+    const distance = easingDistance(easing, { type: 'cubic-bezier', x1, y1, x2, y2 })
+    if (distance <= maxDistance && (!best || distance < best.distance - 1e-9)) {
+      best = { easing: entry, distance, exact: distance <= EXACT_MATCH_DISTANCE }
+    }
+  }
+  return best
+}
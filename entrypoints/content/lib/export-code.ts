@@ -0,0 +1,306 @@
+// Turns captured animations into ready-to-paste code: CSS, a WAAPI
+// element.animate() call, Framer Motion props or a GSAP snippet.
+// A single AnimInfo exports as one block; a group exports every animation
+// in order (GSAP as one timeline, so staggers keep their offsets).
+
+import type { AnimInfo } from '../components/EasingPanel'
+import { matchNamedEasing, EXACT_MATCH_DISTANCE, type ParsedEasing } from './easing-parser'
+import type { KeyframeInfo } from './keyframes'
+import { camelToKebab } from './css-utils'
+import { formatKeyframesCSS, hasKeyframeEasing, segmentsOf } from './keyframes'
+import { isSpring, fitSpring, SPRING_FIT_TOLERANCE, type SpringFit } from './spring-fit'
+
+export type ExportFormat = 'css' | 'waapi' | 'framer' | 'gsap'
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'css',    label: 'CSS' },
+  { id: 'waapi',  label: 'WAAPI' },
+  { id: 'framer', label: 'Framer' },
+  { id: 'gsap',   label: 'GSAP' },
+]
+
+// ── Value helpers ─────────────────────────────────────────────────────
+
+function round(n: number): number {
+  return parseFloat(n.toFixed(3))
+}
+
+function seconds(ms: number | 'auto'): number {
+  return ms === 'auto' ? 0 : round(ms / 1000)
+}
+
+function durationMs(ms: number | 'auto'): string {
+  return `${ms === 'auto' ? 0 : round(ms)}ms`
+}
+
+// Plain numbers stay numbers ("0.5" → 0.5); everything else is a string
+function jsValue(value: string): string {
+  return /^-?\d*\.?\d+$/.test(value.trim()) ? String(parseFloat(value)) : JSON.stringify(value)
+}
+
+function jsKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+function jsObject(entries: [string, string][], indent = ''): string {
+  if (!entries.length) return '{}'
+  const inner = entries.map(([k, v]) => `${indent}  ${jsKey(k)}: ${v},`).join('\n')
+  return `{\n${inner}\n${indent}}`
+}
+
+// Element selector and pseudo-element, split back apart
+function selectorOf(info: AnimInfo): string {
+  const target = info.target ?? '.element'
+  return info.pseudoElement && target.endsWith(info.pseudoElement)
+    ? target.slice(0, -info.pseudoElement.length)
+    : target
+}
+
+function keyframeName(info: AnimInfo, index: number): string {
+  if (info.kind === 'css-animation' && info.name) return info.name
+  return index > 0 ? `animation-${index + 1}` : 'animation'
+}
+
+// Keyframes to export — a transition without captured keyframes has none
+function keyframesOf(info: AnimInfo): KeyframeInfo[] {
+  return info.keyframes.length >= 2 ? info.keyframes : []
+}
+
+// ── Easing as a JS function (linear() and steps() have no library form) ──
+
+export function easingFunctionSource(easing: ParsedEasing): string | null {
+  if (easing.type === 'linear') {
+    const stops = easing.stops.map((s) => `[${round(s.position)}, ${round(s.value)}]`).join(', ')
+    return (
+      `(t) => { const s = [${stops}]; let i = 1; ` +
+      `while (i < s.length - 1 && t > s[i][0]) i++; ` +
+      `const [x0, y0] = s[i - 1], [x1, y1] = s[i]; ` +
+      `return x1 === x0 ? y1 : y0 + (y1 - y0) * (t - x0) / (x1 - x0) }`
+    )
+  }
+  if (easing.type === 'steps') {
+    const n = easing.count
+    switch (easing.direction) {
+      case 'jump-start': return `(t) => Math.min(1, (Math.floor(t * ${n}) + 1) / ${n})`
+      case 'jump-both':  return `(t) => Math.min(1, (Math.floor(t * ${n}) + 1) / ${n + 1})`
+      case 'jump-none':  return `(t) => Math.min(1, Math.floor(t * ${n}) / ${n - 1})`
+      default:           return `(t) => Math.min(1, Math.floor(t * ${n}) / ${n})`
+    }
+  }
+  return null
+}
+
+const FRAMER_NAMED: Record<string, string> = {
+  linear: 'linear',
+  'ease-in': 'easeIn',
+  'ease-out': 'easeOut',
+  'ease-in-out': 'easeInOut',
+}
+
+function framerEase(easing: ParsedEasing): string {
+  if (easing.type === 'cubic-bezier') {
+    const named = easing.name && FRAMER_NAMED[easing.name]
+    if (named) return JSON.stringify(named)
+    return `[${[easing.x1, easing.y1, easing.x2, easing.y2].map(round).join(', ')}]`
+  }
+  return easingFunctionSource(easing) ?? JSON.stringify('linear')
+}
+
+// GSAP's built-in eases for Penner's equations (power1 is quad … power4 quint)
+const GSAP_PENNER: Record<string, string> = {
+  Sine: 'sine', Quad: 'power1', Cubic: 'power2', Quart: 'power3', Quint: 'power4',
+  Expo: 'expo', Circ: 'circ', Back: 'back',
+}
+
+const CUSTOM_EASE_NOTE = '// requires gsap/CustomEase (gsap.registerPlugin(CustomEase))'
+
+// Built-in ease name when the curve is one GSAP ships, or null
+function gsapNamedEase(easing: ParsedEasing): string | null {
+  const match = matchNamedEasing(easing, EXACT_MATCH_DISTANCE)
+  if (!match) return null
+  const { name, family } = match.easing
+  if (family === 'GSAP') return name
+  if (family === 'CSS' && name === 'linear') return 'none'
+  const penner = family === 'Penner' && /^ease(InOut|In|Out)(\w+)$/.exec(name)
+  if (!penner || !GSAP_PENNER[penner[2]]) return null
+  return `${GSAP_PENNER[penner[2]]}.${penner[1][0].toLowerCase()}${penner[1].slice(1)}`
+}
+
+function gsapEase(easing: ParsedEasing): string {
+  if (easing.type === 'cubic-bezier') {
+    const named = gsapNamedEase(easing)
+    if (named) return JSON.stringify(named)
+    // CustomEase plugin — GSAP has no cubic-bezier() ease of its own
+    const points = [easing.x1, easing.y1, easing.x2, easing.y2].map(round).join(',')
+    const id = easing.name ?? `cubic-bezier(${points})`
+    return `CustomEase.create('${id}', 'M0,0 C${points} 1,1')`
+  }
+  return easingFunctionSource(easing) ?? JSON.stringify('none')
+}
+
+// Names the plugin a snippet needs, if any of its eases use it
+function withCustomEaseNote(code: string): string {
+  return code.includes('CustomEase.create(') ? `${CUSTOM_EASE_NOTE}\n${code}` : code
+}
+
+// ── CSS ───────────────────────────────────────────────────────────────
+
+function exportCSS(info: AnimInfo, index: number): string {
+  const selector = selectorOf(info) + (info.pseudoElement ?? '')
+  const easing = info.rawEasing
+
+  if (info.kind === 'css-transition') {
+    const prop = info.name ?? (info.properties[0] ? camelToKebab(info.properties[0]) : 'all')
+    const [from, to] = [info.keyframes[0], info.keyframes[info.keyframes.length - 1]]
+    const values = from && to
+      ? Object.keys(from.values).map((k) => `  /* ${camelToKebab(k)}: ${from.values[k]} → ${to.values[k]} */\n`).join('')
+      : ''
+    return `${selector} {\n${values}  transition: ${prop} ${durationMs(info.duration)} ${easing} ${durationMs(info.delay)};\n}`
+  }
+
+  const name = keyframeName(info, index)
+  const iterations = Number.isFinite(info.iterations) ? String(info.iterations) : 'infinite'
+  const fill = info.fill === 'auto' ? 'none' : info.fill
+  const keyframes = keyframesOf(info)
+  // animation-timing-function eases each keyframe segment, not the whole
+  // iteration — only a single linear segment makes the two the same
+  const perSegment = keyframes.length > 2 || hasKeyframeEasing(keyframes)
+  const unrepresentable = easing !== 'linear' && perSegment
+  const shorthand = [
+    name, durationMs(info.duration), unrepresentable ? 'linear' : easing,
+    durationMs(info.delay), iterations, info.direction, fill,
+  ].join(' ')
+  const note = unrepresentable
+    ? `  /* easing ${easing} spans the whole animation — CSS can only ease each keyframe segment */\n`
+    : ''
+  const block = keyframes.length ? formatKeyframesCSS(keyframes, name) + '\n\n' : ''
+  return `${block}${selector} {\n${note}  animation: ${shorthand};\n}`
+}
+
+// ── WAAPI ─────────────────────────────────────────────────────────────
+
+function exportWAAPI(info: AnimInfo): string {
+  const keyframes = keyframesOf(info).map((kf, i, all) => {
+    const entries: [string, string][] = Object.entries(kf.values).map(([k, v]) => [k, jsValue(v)])
+    entries.push(['offset', String(round(kf.offset))])
+    if (i < all.length - 1 && kf.rawEasing !== 'linear') entries.push(['easing', JSON.stringify(kf.rawEasing)])
+    return '  ' + jsObject(entries, '  ')
+  })
+  const timing: [string, string][] = [['duration', String(info.duration === 'auto' ? 0 : round(info.duration))]]
+  if (info.delay) timing.push(['delay', String(round(info.delay))])
+  if (info.endDelay) timing.push(['endDelay', String(round(info.endDelay))])
+  if (info.rawEasing !== 'linear') timing.push(['easing', JSON.stringify(info.rawEasing)])
+  if (info.iterations !== 1) timing.push(['iterations', Number.isFinite(info.iterations) ? String(info.iterations) : 'Infinity'])
+  if (info.direction !== 'normal') timing.push(['direction', JSON.stringify(info.direction)])
+  if (info.fill !== 'auto' && info.fill !== 'none') timing.push(['fill', JSON.stringify(info.fill)])
+  if (info.composite !== 'replace') timing.push(['composite', JSON.stringify(info.composite)])
+  if (info.pseudoElement) timing.push(['pseudoElement', JSON.stringify(info.pseudoElement)])
+
+  const target = `document.querySelector(${JSON.stringify(selectorOf(info))})`
+  return `${target}.animate([\n${keyframes.join(',\n')}\n], ${jsObject(timing)})`
+}
+
+// ── Framer Motion ─────────────────────────────────────────────────────
+
+function springEntries(fit: SpringFit): [string, string][] {
+  return fit.framer
+    ? [['duration', String(fit.framer.duration)], ['bounce', String(fit.framer.bounce)]]
+    : [['stiffness', String(fit.stiffness)], ['damping', String(fit.damping)], ['mass', String(fit.mass)]]
+}
+
+function exportFramer(info: AnimInfo): string {
+  const keyframes = keyframesOf(info)
+  const props = Array.from(new Set(keyframes.flatMap((kf) => Object.keys(kf.values))))
+  const animate: [string, string][] = props.map((prop) => {
+    const values = keyframes.map((kf) => (kf.values[prop] !== undefined ? jsValue(kf.values[prop]) : 'null'))
+    return [prop, `[${values.join(', ')}]`]
+  })
+
+  // A sampled spring between two values goes back to being a real spring
+  const fit = keyframes.length === 2 && isSpring(info.easing) && info.duration !== 'auto'
+    ? fitSpring(info.easing, info.duration)
+    : null
+  const spring = fit && fit.error < SPRING_FIT_TOLERANCE ? fit : null
+
+  const transition: [string, string][] = spring
+    ? [['type', '"spring"'], ...springEntries(spring)]
+    : [['duration', String(seconds(info.duration))]]
+  if (info.delay) transition.push(['delay', String(seconds(info.delay))])
+  if (!spring) {
+    transition.push(['ease', hasKeyframeEasing(keyframes)
+      ? `[${segmentsOf(keyframes).map((kf) => framerEase(kf.easing)).join(', ')}]`
+      : framerEase(info.easing)])
+  }
+  const evenlySpaced = keyframes.every((kf, i) => Math.abs(kf.offset - i / (keyframes.length - 1)) < 1e-6)
+  if (keyframes.length > 2 && !evenlySpaced) transition.push(['times', `[${keyframes.map((kf) => round(kf.offset)).join(', ')}]`])
+  if (info.iterations !== 1) {
+    transition.push(['repeat', Number.isFinite(info.iterations) ? String(info.iterations - 1) : 'Infinity'])
+    if (info.direction === 'alternate' || info.direction === 'alternate-reverse') transition.push(['repeatType', '"reverse"'])
+  }
+
+  return jsObject([['animate', jsObject(animate, '  ')], ['transition', jsObject(transition, '  ')]])
+}
+
+// ── GSAP ──────────────────────────────────────────────────────────────
+
+function gsapVars(info: AnimInfo, includeDelay: boolean): { from: [string, string][]; to: [string, string][] } {
+  const keyframes = keyframesOf(info)
+  const timing: [string, string][] = [['duration', String(seconds(info.duration))]]
+  if (includeDelay && info.delay) timing.push(['delay', String(seconds(info.delay))])
+  if (info.iterations !== 1) {
+    timing.push(['repeat', Number.isFinite(info.iterations) ? String(info.iterations - 1) : '-1'])
+    if (info.direction === 'alternate' || info.direction === 'alternate-reverse') timing.push(['yoyo', 'true'])
+  }
+
+  const valuesOf = (kf: KeyframeInfo): [string, string][] => Object.entries(kf.values).map(([k, v]) => [k, jsValue(v)])
+
+  if (keyframes.length > 2) {
+    // A percentage keyframe's ease drives the segment that ends at it, so
+    // segment i's ease goes on keyframe i + 1. Unset ones fall back to
+    // easeEach, which GSAP defaults to power1.inOut — hence "none".
+    const frames: [string, string][] = keyframes.map((kf, i) => {
+      const entries = valuesOf(kf)
+      const segment = keyframes[i - 1]
+      if (segment && segment.rawEasing !== 'linear') entries.push(['ease', gsapEase(segment.easing)])
+      return [`${round(kf.offset * 100)}%`, jsObject(entries, '    ')]
+    })
+    frames.push(['easeEach', JSON.stringify('none')])
+    return { from: [], to: [['keyframes', jsObject(frames, '  ')], ['ease', gsapEase(info.easing)], ...timing] }
+  }
+
+  const ease = hasKeyframeEasing(keyframes) ? keyframes[0].easing : info.easing
+  return {
+    from: keyframes.length ? valuesOf(keyframes[0]) : [],
+    to: [...(keyframes.length ? valuesOf(keyframes[keyframes.length - 1]) : []), ['ease', gsapEase(ease)], ...timing],
+  }
+}
+
+function gsapCall(info: AnimInfo, receiver: string, position?: number): string {
+  const { from, to } = gsapVars(info, position === undefined)
+  const target = JSON.stringify(selectorOf(info))
+  const at = position === undefined ? '' : `, ${position}`
+  return from.length
+    ? `${receiver}.fromTo(${target}, ${jsObject(from)}, ${jsObject(to)}${at})`
+    : `${receiver}.to(${target}, ${jsObject(to)}${at})`
+}
+
+// ── Entry point ───────────────────────────────────────────────────────
+
+export function exportAnimations(anims: AnimInfo[], format: ExportFormat): string {
+  switch (format) {
+    case 'css':
+      return anims.map((info, i) => exportCSS(info, i)).join('\n\n')
+    case 'waapi':
+      return anims.map(exportWAAPI).join('\n\n')
+    case 'framer':
+      return anims.length === 1
+        ? exportFramer(anims[0])
+        : anims.map((info) => `// ${selectorOf(info)}\n${exportFramer(info)}`).join('\n\n')
+    case 'gsap':
+      if (anims.length === 1) return withCustomEaseNote(gsapCall(anims[0], 'gsap'))
+      // Delays become timeline positions so the stagger survives
+      return withCustomEaseNote(
+        ['const tl = gsap.timeline()', ...anims.map((info) => gsapCall(info, 'tl', seconds(info.delay)))].join('\n'),
+      )
+  }
+}
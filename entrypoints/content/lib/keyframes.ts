@@ -0,0 +1,53 @@
+// Per-keyframe easing capture. CSS @keyframes put animation-timing-function
+// on each keyframe, so getTiming().easing only reports 'linear' — the real
+// curve is the chain of segments between consecutive keyframes.
+
+import { parseEasing, type ParsedEasing } from './easing-parser'
+import { camelToKebab } from './css-utils'
+
+export interface KeyframeInfo {
+  offset: number                 // 0–1 within one iteration
+  rawEasing: string              // timing function from this keyframe to the next
+  easing: ParsedEasing
+  values: Record<string, string> // camelCase CSS property → value
+}
+
+export const KEYFRAME_META = new Set(['offset', 'computedOffset', 'easing', 'composite'])
+
+export function captureKeyframes(keyframes: ComputedKeyframe[]): KeyframeInfo[] {
+  return keyframes.map((kf) => {
+    const rawEasing = kf.easing ?? 'linear'
+    const values: Record<string, string> = {}
+    for (const [key, value] of Object.entries(kf)) {
+      if (KEYFRAME_META.has(key) || value == null) continue
+      values[key] = String(value)
+    }
+    return { offset: kf.computedOffset, rawEasing, easing: parseEasing(rawEasing), values }
+  })
+}
+
+// The last keyframe's easing never applies — there's no segment after it
+export function segmentsOf(keyframes: KeyframeInfo[]): KeyframeInfo[] {
+  return keyframes.slice(0, -1)
+}
+
+// True when at least one segment eases — otherwise the effect-level easing
+// alone describes the motion and the plain curve view is enough.
+export function hasKeyframeEasing(keyframes: KeyframeInfo[]): boolean {
+  return segmentsOf(keyframes).some((kf) => kf.rawEasing !== 'linear')
+}
+
+function formatOffset(offset: number): string {
+  return `${parseFloat((offset * 100).toFixed(2))}%`
+}
+
+// @keyframes block carrying each keyframe's own timing function
+export function formatKeyframesCSS(keyframes: KeyframeInfo[], name = 'animation'): string {
+  const last = keyframes.length - 1
+  const blocks = keyframes.map((kf, i) => {
+    const decls = Object.entries(kf.values).map(([prop, value]) => `${camelToKebab(prop)}: ${value};`)
+    if (i < last && kf.rawEasing !== 'linear') decls.push(`animation-timing-function: ${kf.rawEasing};`)
+    return `  ${formatOffset(kf.offset)} {${decls.map((d) => `\n    ${d}`).join('')}\n  }`
+  })
+  return `@keyframes ${name} {\n${blocks.join('\n')}\n}`
+}
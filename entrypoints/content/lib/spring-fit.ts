@@ -0,0 +1,149 @@
+// Recovers spring parameters from a sampled linear() curve. Framer Motion
+// encodes a spring as linear() stops sampled over the spring's settle
+// time, which is also the animation's duration — so stop position ×
+// duration is time in the spring's own clock, and a damped harmonic
+// oscillator (mass 1, from 0 to 1 at rest) can be fitted to the values.
+
+import type { LinearEasing, ParsedEasing } from './easing-parser'
+
+export interface SpringFit {
+  stiffness: number
+  damping: number
+  mass: number
+  dampingRatio: number                           // 1 is critically damped
+  framer: { duration: number; bounce: number } | null // null when overdamped — no bounce maps to it
+  error: number                                  // RMS distance to the stops, in progress units
+}
+
+// Framer Motion settles a duration/bounce spring when its envelope drops
+// below this (findSpring's safeMin)
+const SETTLE_EPSILON = 0.001
+
+// RMS error under which a fit is reported as the curve's spring
+export const SPRING_FIT_TOLERANCE = 0.02
+
+// Natural frequency search range, rad/s (stiffness 0.25 – 250 000 at mass 1)
+const MIN_LOG_OMEGA = Math.log(0.5)
+const MAX_LOG_OMEGA = Math.log(500)
+
+// A spring is encoded by Framer Motion as a linear() function with many
+// discrete stops. The threshold of 20 distinguishes springs from hand-authored
+// linear() easings which rarely exceed 10 stops.
+export function isSpring(easing: ParsedEasing): easing is LinearEasing {
+  return easing.type === 'linear' && easing.stops.length > 20
+}
+
+// ── Oscillator ────────────────────────────────────────────────────────
+
+// Position at time t (s) of a unit-mass spring released from 0 towards 1
+export function springPosition(omega: number, zeta: number, t: number): number {
+  // Near ζ = 1 both the under- and overdamped forms divide by ~0
+  if (Math.abs(zeta - 1) < 1e-4) {
+    return 1 - Math.exp(-omega * t) * (1 + omega * t)
+  }
+  if (zeta < 1) {
+    const decay = zeta * omega
+    const damped = omega * Math.sqrt(1 - zeta * zeta)
+    return 1 - Math.exp(-decay * t) * (Math.cos(damped * t) + (decay / damped) * Math.sin(damped * t))
+  }
+  const root = omega * Math.sqrt(zeta * zeta - 1)
+  const r1 = -zeta * omega + root
+  const r2 = -zeta * omega - root
+  return 1 - (r2 * Math.exp(r1 * t) - r1 * Math.exp(r2 * t)) / (r2 - r1)
+}
+
+function rmsError(stops: LinearEasing['stops'], seconds: number, omega: number, zeta: number): number {
+  let sum = 0
+  for (const stop of stops) {
+    const diff = springPosition(omega, zeta, stop.position * seconds) - stop.value
+    sum += diff * diff
+  }
+  return Math.sqrt(sum / stops.length)
+}
+
+// ── Framer Motion duration / bounce ───────────────────────────────────
+
+// Inverse of Framer Motion's findSpring: the duration at which the spring's
+// envelope reaches SETTLE_EPSILON, and bounce = 1 − damping ratio
+function framerEquivalent(omega: number, zeta: number): SpringFit['framer'] {
+  if (zeta > 1.001) return null
+  let duration: number
+  if (zeta < 0.999) {
+    const decay = zeta * omega
+    const damped = omega * Math.sqrt(1 - zeta * zeta)
+    duration = Math.log(decay / damped / SETTLE_EPSILON) / decay
+  } else {
+    // e^(−u)·(1 + u) = ε has no closed form — bisect for u = ω·duration
+    let lo = 0
+    let hi = 50
+    while (hi - lo > 1e-6) {
+      const u = (lo + hi) / 2
+      if (Math.exp(-u) * (1 + u) > SETTLE_EPSILON) lo = u
+      else hi = u
+    }
+    duration = lo / omega
+  }
+  return { duration: round(Math.max(0, duration), 3), bounce: round(Math.max(0, 1 - zeta), 2) }
+}
+
+function round(n: number, digits: number): number {
+  return parseFloat(n.toFixed(digits))
+}
+
+// ── Fit ───────────────────────────────────────────────────────────────
+
+// Coarse grid over log ω and ζ, then a shrinking pattern search from the
+// best cell. Returns null without a usable duration or enough stops.
+export function fitSpring(easing: LinearEasing, durationMs: number): SpringFit | null {
+  const { stops } = easing
+  if (stops.length < 3 || !(durationMs > 0)) return null
+  const seconds = durationMs / 1000
+
+  let best = { logOmega: 0, zeta: 1, error: Infinity }
+  for (let i = 0; i <= 48; i++) {
+    const logOmega = MIN_LOG_OMEGA + (i / 48) * (MAX_LOG_OMEGA - MIN_LOG_OMEGA)
+    for (let j = 0; j <= 40; j++) {
+      const zeta = 0.02 + (j / 40) * 1.98
+      const error = rmsError(stops, seconds, Math.exp(logOmega), zeta)
+      if (error < best.error) best = { logOmega, zeta, error }
+    }
+  }
+
+  // Bounded, so a curve that isn't a spring can't send it wandering
+  let stepOmega = 0.1
+  let stepZeta = 0.025
+  for (let iteration = 0; stepOmega > 1e-5 && iteration < 400; iteration++) {
+    let improved = false
+    for (const [dw, dz] of [[stepOmega, 0], [-stepOmega, 0], [0, stepZeta], [0, -stepZeta]]) {
+      const logOmega = Math.min(MAX_LOG_OMEGA, Math.max(MIN_LOG_OMEGA, best.logOmega + dw))
+      const zeta = Math.min(3, Math.max(0.005, best.zeta + dz))
+      const error = rmsError(stops, seconds, Math.exp(logOmega), zeta)
+      if (error < best.error - 1e-12) {
+        best = { logOmega, zeta, error }
+        improved = true
+      }
+    }
+    if (!improved) {
+      stepOmega /= 2
+      stepZeta /= 2
+    }
+  }
+
+  const omega = Math.exp(best.logOmega)
+  return {
+    stiffness: round(omega * omega, 1),
+    damping: round(2 * best.zeta * omega, 2),
+    mass: 1,
+    dampingRatio: round(best.zeta, 3),
+    framer: framerEquivalent(omega, best.zeta),
+    error: best.error,
+  }
+}
+
+// Transition object to paste into Framer Motion — duration/bounce when the
+// spring has one (the lib/springs.ts form), physical parameters otherwise
+export function formatSpringConfig(fit: SpringFit): string {
+  return fit.framer
+    ? `{ type: 'spring', duration: ${fit.framer.duration}, bounce: ${fit.framer.bounce} }`
+    : `{ type: 'spring', stiffness: ${fit.stiffness}, damping: ${fit.damping}, mass: ${fit.mass} }`
+}
@@ -0,0 +1,54 @@
+// Lays out a captured group as a Gantt chart: one bar per animation on a
+// shared time axis, plus the stagger between consecutive starts.
+
+export interface TimelineInput {
+  delay: number             // ms, may be negative (started part-way through)
+  duration: number | 'auto' // ms, one iteration
+  iterations: number        // Infinity for infinite
+}
+
+export interface TimelineBar {
+  start: number    // ms from the axis origin
+  end: number
+  infinite: boolean // only the first iteration is drawn
+}
+
+export interface TimelineLayout {
+  bars: TimelineBar[]   // same order as the input
+  origin: number        // earliest start in page time — 0 unless a delay is negative
+  total: number         // choreography length: origin to the last end
+  staggers: number[]    // gaps between consecutive starts, in start order
+  stagger: { min: number; max: number } | null // null with fewer than two bars
+}
+
+export function layoutTimeline(anims: TimelineInput[]): TimelineLayout {
+  const spans = anims.map((a) => {
+    const duration = a.duration === 'auto' ? 0 : a.duration
+    const infinite = !Number.isFinite(a.iterations)
+    const active = duration * (infinite ? 1 : Math.max(0, a.iterations))
+    return { start: a.delay, end: a.delay + active, infinite }
+  })
+
+  const origin = Math.min(0, ...spans.map((s) => s.start))
+  const bars = spans.map((s) => ({ start: s.start - origin, end: s.end - origin, infinite: s.infinite }))
+  const total = Math.max(0, ...bars.map((b) => b.end))
+
+  const starts = bars.map((b) => b.start).sort((a, b) => a - b)
+  const staggers = starts.slice(1).map((start, i) => start - starts[i])
+  const stagger = staggers.length
+    ? { min: Math.min(...staggers), max: Math.max(...staggers) }
+    : null
+
+  return { bars, origin, total, staggers, stagger }
+}
+
+// Evenly spaced axis ticks at a round step, 0 and the step multiples up to total
+export function axisTicks(total: number, maxTicks = 4): number[] {
+  if (total <= 0) return [0]
+  const rough = total / maxTicks
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)))
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough)!
+  const ticks: number[] = []
+  for (let t = 0; t <= total + 1e-9; t += step) ticks.push(Math.round(t))
+  return ticks
+}
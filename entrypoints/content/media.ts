@@ -0,0 +1,126 @@
+// Layer 4 — HTMLMediaElement playbackRate
+// Covers: <video>/<audio> choreographed with CSS (hero loops, Lottie-exported
+// MP4s). Media runs on its own clock, so none of the other layers reach it.
+
+import { DEFAULT_MEDIA_OPTIONS, type MediaOptions } from '../../src/shared/types'
+import { isExcluded } from './exclusions'
+
+// Same idea as originalRates in waapi.ts: capture each element's baseline on
+// first touch so "off" restores sites that already play at a custom rate.
+interface MediaBaseline {
+  playbackRate: number
+  muted: boolean
+  preservesPitch: boolean
+}
+
+const originals = new WeakMap<HTMLMediaElement, MediaBaseline>()
+
+// Browsers reject non-zero rates outside roughly [1/16, 16] (Chrome throws).
+// 0 itself is allowed and freezes playback without firing a pause event, so
+// anything slower than the floor freezes, as at 0x, rather than silently
+// playing faster than asked.
+const MIN_MEDIA_RATE = 0.0625
+const MAX_MEDIA_RATE = 16
+
+let options: MediaOptions = DEFAULT_MEDIA_OPTIONS
+
+function getMediaElements(): HTMLMediaElement[] {
+  return Array.from(document.querySelectorAll<HTMLMediaElement>('video, audio'))
+}
+
+// Media Slooow drives — everything but elements excluded by rule
+function drivenMediaElements(): HTMLMediaElement[] {
+  return getMediaElements().filter((el) => !isExcluded(el))
+}
+
+function clampRate(rate: number): number {
+  if (Math.abs(rate) < MIN_MEDIA_RATE) return 0
+  const sign = rate < 0 ? -1 : 1
+  return sign * Math.min(MAX_MEDIA_RATE, Math.max(MIN_MEDIA_RATE, Math.abs(rate)))
+}
+
+export function setMediaOptions(next: MediaOptions): void {
+  options = next
+}
+
+export function applyMedia(speed: number, elements?: HTMLMediaElement[]): void {
+  const targets = elements ? elements.filter((el) => !isExcluded(el)) : drivenMediaElements()
+  targets.forEach((el) => {
+    if (!originals.has(el)) {
+      originals.set(el, { // capture baseline on first touch
+        playbackRate: el.playbackRate,
+        muted: el.muted,
+        preservesPitch: el.preservesPitch,
+      })
+    }
+    const baseline = originals.get(el)!
+    try {
+      el.playbackRate = clampRate(baseline.playbackRate * speed)
+    } catch {
+      // Rate still unsupported (e.g. negative on Chrome) — leave it alone
+    }
+    el.preservesPitch = options.preservePitch
+    el.muted = options.mute || baseline.muted
+  })
+}
+
+export function resetMedia(elements?: HTMLMediaElement[]): void {
+  const targets = elements ?? getMediaElements()
+  targets.forEach((el) => {
+    const baseline = originals.get(el)
+    if (!baseline) return
+    el.playbackRate = baseline.playbackRate
+    el.muted = baseline.muted
+    el.preservesPitch = baseline.preservesPitch
+    originals.delete(el)
+  })
+}
+
+// Moves each element by `deltaMs` of page time at its baseline rate
+export function stepMedia(deltaMs: number): void {
+  drivenMediaElements().forEach((el) => {
+    const rate = originals.get(el)?.playbackRate ?? el.playbackRate
+    el.currentTime = Math.max(0, el.currentTime + (deltaMs / 1000) * rate)
+  })
+}
+
+// Scrub session: currentTime (s) of every element when scrubbing began
+let scrubBase: Map<HTMLMediaElement, number> | null = null
+
+export function seekMedia(offsetMs: number): void {
+  if (!scrubBase) {
+    scrubBase = new Map(drivenMediaElements().map((el) => [el, el.currentTime]))
+  }
+  scrubBase.forEach((base, el) => {
+    const rate = originals.get(el)?.playbackRate ?? el.playbackRate
+    el.currentTime = Math.max(0, base + (offsetMs / 1000) * rate)
+  })
+}
+
+export function endScrubMedia(): void {
+  scrubBase = null
+}
+
+export function countMedia(): number {
+  return document.querySelectorAll('video, audio').length
+}
+
+// Media that starts playing while slowed — e.g. a video whose src is swapped
+// in after the element was already counted — gets the current speed again.
+// 'play' doesn't bubble, so listen in the capture phase.
+let playListener: ((e: Event) => void) | null = null
+
+export function startMediaListener(getSpeed: () => number | null): void {
+  stopMediaListener()
+  playListener = (e: Event) => {
+    const speed = getSpeed()
+    if (speed === null || !(e.target instanceof HTMLMediaElement)) return
+    applyMedia(speed, [e.target])
+  }
+  document.addEventListener('play', playListener, true)
+}
+
+export function stopMediaListener(): void {
+  if (playListener) document.removeEventListener('play', playListener, true)
+  playListener = null
+}
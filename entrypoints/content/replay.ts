@@ -0,0 +1,170 @@
+// Replay, loop and reverse for captured animations.
+// History entries hold the Animation weakly — the page owns it, and a
+// finished CSS transition shouldn't be kept alive by the toolbar. Replays
+// run at whatever rate Slooow currently gives the animation.
+//
+// Once the Animation is gone (collected, or cancelled and dropped) the
+// original trigger is re-run instead: CSS animations restart by toggling
+// animation-name, CSS transitions re-run from their captured start value,
+// and WAAPI animations are re-created from their captured keyframes.
+
+import { SLOOOW_ANIMATION_EVENT } from '../../src/shared/types'
+import type { AnimInfo } from './components/EasingPanel'
+import { camelToKebab } from './lib/css-utils'
+import { playbackDirection, setPlaybackDirection } from './waapi'
+
+export interface AnimSource {
+  animation: WeakRef<Animation>
+  target: WeakRef<Element> | null
+}
+
+export type ReplayDirection = 'forward' | 'reverse'
+
+// Latest run per entry — starting another replay cancels a running loop
+const runs = new WeakMap<AnimInfo, number>()
+
+export function sourceOf(anim: Animation): AnimSource {
+  const target = (anim.effect as KeyframeEffect | null)?.target
+  return { animation: new WeakRef(anim), target: target ? new WeakRef(target) : null }
+}
+
+// A cancelled Animation still replays with play(); only a collected one
+// or one whose element left the page needs the trigger re-run
+export function liveAnimation(info: AnimInfo): Animation | null {
+  const anim = info.source?.animation.deref()
+  const target = (anim?.effect as KeyframeEffect | null | undefined)?.target
+  return anim && target?.isConnected ? anim : null
+}
+
+function liveTarget(info: AnimInfo): Element | null {
+  const target = info.source?.target?.deref()
+  return target?.isConnected ? target : null
+}
+
+export function canReplay(info: AnimInfo): boolean {
+  return info.kind !== 'gsap-tween' && (liveAnimation(info) !== null || liveTarget(info) !== null)
+}
+
+function reflow(el: Element): void {
+  void (el as HTMLElement).offsetWidth
+}
+
+// The freshest animation on `target` matching the captured one. Only a
+// subtree query reaches ::before/::after, so descendants are filtered out.
+function findRecreated(target: Element, info: AnimInfo): Animation | null {
+  const match = target.getAnimations({ subtree: true }).filter((a) => {
+    const effect = a.effect as KeyframeEffect | null
+    if (effect?.target !== target || (effect.pseudoElement ?? undefined) !== info.pseudoElement) return false
+    if (info.kind === 'css-animation') return a instanceof CSSAnimation && a.animationName === info.name
+    if (info.kind === 'css-transition') return a instanceof CSSTransition && a.transitionProperty === info.name
+    return !(a instanceof CSSAnimation) && !(a instanceof CSSTransition)
+  })
+  return match[match.length - 1] ?? null
+}
+
+// Re-runs the original trigger and returns the new Animation
+function retrigger(info: AnimInfo, target: Element): Animation | null {
+  const style = (target as HTMLElement).style
+  if (!style) return null
+
+  if (info.kind === 'css-animation') {
+    const inline = style.animationName
+    style.animationName = 'none'
+    reflow(target)
+    style.animationName = inline
+  } else if (info.kind === 'css-transition' && info.name) {
+    // Runs from the captured start value to whatever the element has now —
+    // if the page has already reverted its state there's nothing to run
+    const from = info.keyframes[0]?.values
+    const prop = camelToKebab(info.name)
+    const value = from && Object.entries(from).find(([key]) => camelToKebab(key) === prop)?.[1]
+    if (value === undefined) return null
+    const inlineTransition = style.transition
+    const inlineValue = style.getPropertyValue(prop)
+    const inlinePriority = style.getPropertyPriority(prop)
+    style.transition = 'none'
+    style.setProperty(prop, value, 'important')
+    reflow(target)
+    style.transition = inlineTransition
+    if (inlineValue) style.setProperty(prop, inlineValue, inlinePriority)
+    else style.removeProperty(prop)
+  } else {
+    const keyframes = info.keyframes.map((kf) => ({ ...kf.values, offset: kf.offset, easing: kf.rawEasing }))
+    if (!keyframes.length) return null
+    target.animate(keyframes, {
+      duration: info.duration === 'auto' ? 0 : info.duration,
+      delay: info.delay,
+      endDelay: info.endDelay,
+      iterations: info.iterations,
+      direction: info.direction,
+      fill: info.fill,
+      easing: info.rawEasing,
+      composite: info.composite,
+      pseudoElement: info.pseudoElement,
+    })
+    // Same announcement inject.ts makes, so the WAAPI layer applies the speed
+    target.dispatchEvent(new Event(SLOOOW_ANIMATION_EVENT, { composed: true }))
+  }
+
+  // CSS ones announce themselves via animationstart/transitionrun
+  return findRecreated(target, info)
+}
+
+// An infinite animation never finishes — a pass is one iteration of its own
+// time, watched frame by frame (the isolated world's rAF isn't slowed)
+function iterationPassed(anim: Animation, isCurrent: () => boolean): Promise<void> {
+  const iteration = Number(anim.effect?.getComputedTiming().duration)
+  const start = Number(anim.currentTime)
+  return new Promise((resolve) => {
+    const check = () => {
+      const moved = Math.abs(Number(anim.currentTime) - start)
+      if (!isCurrent() || anim.playState === 'idle' || !(iteration > 0) || moved >= iteration) resolve()
+      else requestAnimationFrame(check)
+    }
+    check()
+  })
+}
+
+// One pass in the given direction, resolving when it finishes (or is replaced).
+// Infinite animations have no end to reverse from — they turn around in place.
+// The direction goes through the WAAPI layer so its sweep keeps it.
+function playOnce(anim: Animation, direction: 1 | -1, isCurrent: () => boolean): Promise<void> {
+  const { delay = 0, activeDuration = 0 } = anim.effect?.getComputedTiming() ?? {}
+  const end = delay + Number(activeDuration)
+  setPlaybackDirection(anim, direction)
+  if (direction === 1) anim.currentTime = 0
+  else if (Number.isFinite(end)) anim.currentTime = end
+  anim.play()
+  return Number.isFinite(end)
+    ? anim.finished.then(() => {}, () => {})
+    : iterationPassed(anim, isCurrent)
+}
+
+// Plays the captured animation `times` times. Infinite animations just restart.
+export async function replay(info: AnimInfo, direction: ReplayDirection = 'forward', times = 1): Promise<boolean> {
+  const run = (runs.get(info) ?? 0) + 1
+  runs.set(info, run)
+  const isCurrent = () => runs.get(info) === run
+
+  let anim = liveAnimation(info)
+  if (!anim) {
+    const target = liveTarget(info)
+    anim = target ? retrigger(info, target) : null
+    if (!anim) return false
+    info.source = { animation: new WeakRef(anim), target: info.source?.target ?? null }
+  }
+
+  const original = playbackDirection(anim)
+  const passes = Number.isFinite(info.iterations) ? times : 1
+  for (let i = 0; i < passes && isCurrent(); i++) {
+    await playOnce(anim, direction === 'reverse' ? -1 : 1, isCurrent)
+  }
+
+  // Back to the page's own direction, unless a newer replay has taken over.
+  // A finished reversed pass rests at its start rather than playing again.
+  if (isCurrent() && playbackDirection(anim) !== original) {
+    if (Number.isFinite(info.iterations)) anim.pause()
+    setPlaybackDirection(anim, original)
+  }
+  return true
+}
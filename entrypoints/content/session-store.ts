@@ -14,12 +14,14 @@
  * when the tab is closed.
  */
 
-import type { SlooowSpeed } from '../../src/shared/types'
+import type { SlooowSpeed, MediaOptions } from '../../src/shared/types'
 
 export interface SlooowSessionState {
   visible: boolean
   enabled: boolean
   speed: SlooowSpeed
+  timeVirtualized?: boolean // optional — absent in state written by older builds
+  media?: MediaOptions      // likewise
 }
 
 const KEY = '__slooow_state'
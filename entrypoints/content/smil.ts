@@ -0,0 +1,96 @@
+// Layer 5 — SVG SMIL
+// Covers: <animate>, <animateTransform>, <animateMotion> and <set> — icon
+// libraries and loaders. SMIL runs on each outermost <svg>'s own document
+// timeline, which document.getAnimations() never sees.
+//
+// While slowed, every SMIL root is paused with pauseAnimations() and its
+// timeline is driven from a virtual clock via setCurrentTime() each frame.
+
+import { createVirtualClock } from '../../src/shared/clock'
+
+const SMIL_SELECTOR = 'animate, animateTransform, animateMotion, set'
+
+interface SMILRoot {
+  startTime: number    // root's SMIL time (s) when we took it over
+  startVirtual: number // clock.now() (ms) at that moment
+  wasPaused: boolean   // the page had already paused it — leave it paused on reset
+}
+
+const roots = new Map<SVGSVGElement, SMILRoot>()
+const clock = createVirtualClock(() => performance.now())
+
+let speedFactor = 1
+let loopId: number | null = null
+
+// Outermost <svg> of every SMIL element — nested <svg>s share its timeline
+function findSMILRoots(): Set<SVGSVGElement> {
+  const found = new Set<SVGSVGElement>()
+  document.querySelectorAll(SMIL_SELECTOR).forEach((el) => {
+    const root = (el as SVGElement).ownerSVGElement
+    if (!root) return
+    let outer = root
+    while (outer.ownerSVGElement) outer = outer.ownerSVGElement
+    found.add(outer)
+  })
+  return found
+}
+
+function render(): void {
+  const now = clock.now()
+  roots.forEach((state, svg) => {
+    if (!svg.isConnected) {
+      roots.delete(svg)
+      return
+    }
+    svg.setCurrentTime(Math.max(0, state.startTime + (now - state.startVirtual) / 1000))
+  })
+}
+
+function tick(): void {
+  render()
+  loopId = roots.size > 0 && speedFactor > 0 ? requestAnimationFrame(tick) : null
+}
+
+function startLoop(): void {
+  if (loopId === null && roots.size > 0 && speedFactor > 0) loopId = requestAnimationFrame(tick)
+}
+
+function stopLoop(): void {
+  if (loopId !== null) cancelAnimationFrame(loopId)
+  loopId = null
+}
+
+export function applySMIL(speed: number): void {
+  clock.setSpeed(speed)
+  speedFactor = speed
+  const now = clock.now()
+  findSMILRoots().forEach((svg) => {
+    if (roots.has(svg)) return
+    roots.set(svg, { startTime: svg.getCurrentTime(), startVirtual: now, wasPaused: svg.animationsPaused() })
+    svg.pauseAnimations()
+  })
+  if (speed > 0) startLoop()
+  else stopLoop()
+}
+
+export function resetSMIL(): void {
+  stopLoop()
+  roots.forEach((state, svg) => {
+    // Timeline resumes from wherever the virtual clock left it
+    if (!state.wasPaused) svg.unpauseAnimations()
+  })
+  roots.clear()
+  clock.setSpeed(1)
+  speedFactor = 1
+}
+
+// Moves every root by `deltaMs` of page time — used for steps and, with the
+// difference between successive offsets, for scrubbing (like the rAF clock)
+export function stepSMIL(deltaMs: number): void {
+  clock.step(deltaMs)
+  render()
+}
+
+export function countSMIL(): number {
+  return findSMILRoots().size
+}
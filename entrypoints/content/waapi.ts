@@ -1,71 +1,289 @@
 // Layer 1 — Web Animations API
 // Covers: CSS animations, CSS transitions, Framer Motion WAAPI path
 // (opacity, simple transforms that run through the browser's animation engine).
+//
+// New animations are slowed as they're created: inject.ts hooks
+// Element.prototype.animate / new Animation() and fires SLOOOW_ANIMATION_EVENT
+// on the target, and CSS ones announce themselves via animationstart /
+// transitionrun. animationstart waits out animation-delay, so class/style
+// changes and inserted nodes also get their own subtree checked for new CSS
+// animations. A slow getAnimations() sweep only catches what those miss
+// (events that don't cross shadow roots, animations created before inject.ts).
+
+import {
+  SLOOOW_ANIMATION_EVENT, SLOOOW_RATE_EVENT, SLOOOW_RATE_RESULT_EVENT, SLOOOW_RATE_SYNC_EVENT,
+  type RateChangeDetail, type RateResultDetail,
+} from '../../src/shared/types'
+import { isExcluded } from './exclusions'
 
 // WeakMap preserves each animation's original playbackRate so that "off" (1x)
 // restores correctly on sites that already use non-default rates (e.g. Lottie,
-// staggered timelines that set playbackRate programmatically).
+// staggered timelines that set playbackRate programmatically). Page writes made
+// while slowed update it (handleRateChange), so it's always the page's intent.
 const originalRates = new WeakMap<Animation, number>()
 
-let pendingRAF = false
-let observerEnabled = false
+let interceptionEnabled = false
 let _getSpeed: (() => number) | null = null
-let _observer: MutationObserver | null = null
+let sweepInterval: ReturnType<typeof setInterval> | null = null
+let styleObserver: MutationObserver | null = null
+// Other layers that need to pick up freshly inserted nodes (media, …)
+const sweepListeners: Array<(speed: number) => void> = []
+
+// Fallback sweep period — each sweep is one document.getAnimations() call
+const SWEEP_INTERVAL = 1000
+// Past this many mutated elements in one batch, scan their common ancestor once
+const MAX_SCAN_ROOTS = 16
+
+// Slooow's own UI (the toolbar's shadow root) always runs at real time.
+// document.getAnimations() includes shadow trees, so it's filtered out here.
+let exemptRoot: Node | null = null
+
+export function setExemptRoot(root: Node | null): void {
+  exemptRoot = root
+}
+
+function isExempt(a: Animation): boolean {
+  const target = (a.effect as KeyframeEffect | null)?.target
+  return exemptRoot !== null && !!target && target.getRootNode() === exemptRoot
+}
+
+export function pageAnimations(): Animation[] {
+  const all = document.getAnimations()
+  return exemptRoot ? all.filter((a) => !isExempt(a)) : all
+}
+
+// Scoped slow-motion: only animations inside this element's subtree (its
+// pseudo-elements included) are slowed; the rest of the page keeps running.
+let scopeRoot: Element | null = null
+
+export function setScope(root: Element | null): void {
+  scopeRoot = root
+}
+
+function inScope(a: Animation): boolean {
+  if (!scopeRoot) return true
+  const target = (a.effect as KeyframeEffect | null)?.target
+  return !!target && scopeRoot.contains(target)
+}
+
+// Matches a selector exclusion rule — see exclusions.ts
+function isExcludedAnimation(a: Animation): boolean {
+  return isExcluded((a.effect as KeyframeEffect | null)?.target)
+}
+
+// The animations Slooow drives — the whole page, or just the scope,
+// minus anything excluded by rule
+function drivenAnimations(): Animation[] {
+  const all = scopeRoot ? scopeRoot.getAnimations({ subtree: true }) : pageAnimations()
+  return all.filter((a) => !isExcludedAnimation(a))
+}
+
+// inject.ts caches the intended rate per animation, "not managed" included;
+// baselines were just captured, dropped or changed, so that cache is stale
+function announceRateSync(): void {
+  if (typeof document !== 'undefined') document.dispatchEvent(new Event(SLOOOW_RATE_SYNC_EVENT))
+}
 
 export function applyWAAPI(speed: number, animations?: Animation[]): void {
-  const targets = animations ?? document.getAnimations()
+  const targets = animations
+    ? animations.filter((a) => !isExempt(a) && inScope(a) && !isExcludedAnimation(a))
+    : drivenAnimations()
+  let captured = false
   targets.forEach((a) => {
     if (!originalRates.has(a)) {
       originalRates.set(a, a.playbackRate) // capture baseline on first touch
+      captured = true
     }
     a.playbackRate = originalRates.get(a)! * speed
   })
+  if (captured) announceRateSync()
 }
 
 export function resetWAAPI(animations?: Animation[]): void {
-  const targets = animations ?? document.getAnimations()
+  const targets = animations ?? pageAnimations()
+  let released = false
   targets.forEach((a) => {
     if (originalRates.has(a)) {
       a.playbackRate = originalRates.get(a)!
       originalRates.delete(a)
+      released = true
     }
   })
+  if (released) announceRateSync()
+}
+
+// Direction the page means the animation to run in, slowed or not
+export function playbackDirection(a: Animation): 1 | -1 {
+  return (originalRates.get(a) ?? a.playbackRate) < 0 ? -1 : 1
+}
+
+// Slooow-initiated direction change (replay). Flips the stored baseline too,
+// otherwise the next sweep re-applies the old sign.
+export function setPlaybackDirection(a: Animation, direction: 1 | -1): void {
+  const base = originalRates.get(a)
+  a.playbackRate = Math.abs(a.playbackRate) * direction
+  if (base !== undefined) {
+    originalRates.set(a, Math.abs(base) * direction)
+    announceRateSync()
+  }
+}
+
+// Moves each animation by `deltaMs` of page time. Scaled by the animation's
+// own baseline rate so a 2x animation advances twice as far per step.
+export function stepWAAPI(deltaMs: number, animations?: Animation[]): void {
+  const targets = animations ?? drivenAnimations()
+  targets.forEach((a) => {
+    const current = a.currentTime
+    if (typeof current !== 'number') return // idle — nothing to step
+    const rate = originalRates.get(a) ?? a.playbackRate
+    a.currentTime = current + deltaMs * rate
+  })
+}
+
+// Scrub session: currentTime of every animation at the moment scrubbing began.
+// Held for the whole session so animations that finish (and drop out of
+// getAnimations()) while dragging forward can still be dragged back.
+let scrubBase: Map<Animation, number> | null = null
+
+export function beginScrubWAAPI(): void {
+  scrubBase = new Map()
+  for (const a of drivenAnimations()) {
+    if (typeof a.currentTime === 'number') scrubBase.set(a, a.currentTime)
+  }
+}
+
+// Seeks every animation to its scrub-start time + `offsetMs` of page time
+export function seekWAAPI(offsetMs: number): void {
+  if (!scrubBase) beginScrubWAAPI()
+  scrubBase!.forEach((base, a) => {
+    const rate = originalRates.get(a) ?? a.playbackRate
+    a.currentTime = base + offsetMs * rate
+  })
+}
+
+export function endScrubWAAPI(): void {
+  scrubBase = null
 }
 
 export function countWAAPI(): number {
-  return document.getAnimations().length
+  return pageAnimations().length
 }
 
-export function setObserverEnabled(enabled: boolean): void {
-  observerEnabled = enabled
+// Animations on `target` itself, including its ::before/::after — both
+// report the originating element as effect.target
+function animationsOf(target: Element): Animation[] {
+  return target.getAnimations({ subtree: true })
+    .filter((a) => (a.effect as KeyframeEffect | null)?.target === target)
 }
 
-export function startWAAPIObserver(getSpeed: () => number): void {
-  _getSpeed = getSpeed
+function handleNewAnimation(e: Event): void {
+  if (!interceptionEnabled || !_getSpeed) return
+  // At document, e.target is retargeted to the outermost shadow host;
+  // composedPath()[0] is the animated element itself (for open roots)
+  const target = e.composedPath()[0] ?? e.target
+  if (!(target instanceof Element)) return
+  applyWAAPI(_getSpeed(), animationsOf(target)) // baselines already captured are kept
+}
+
+// The page changed (or is reading) a rate — see SLOOOW_RATE_EVENT. inject.ts
+// has already applied the page's call natively; re-scale and answer with the
+// rate the page intends so its playbackRate getter can report that instead.
+function handleRateChange(e: Event): void {
+  const target = e.composedPath()[0] ?? e.target
+  if (!(target instanceof Element)) return
+  const { index, kind, rate } = (e as CustomEvent<RateChangeDetail>).detail
+  const a = animationsOf(target)[index]
+  let intended: number | null = null
 
-  if (_observer) {
-    _observer.disconnect()
+  if (interceptionEnabled && _getSpeed && a && !isExempt(a) && originalRates.has(a)) {
+    const speed = _getSpeed()
+    if (kind === 'set' && typeof rate === 'number') {
+      originalRates.set(a, rate)
+      a.playbackRate = rate * speed
+    } else if (kind === 'update' && typeof rate === 'number') {
+      originalRates.set(a, rate)
+      a.updatePlaybackRate(rate * speed)
+    } else if (kind === 'reverse') {
+      // Native reverse() already negated the scaled rate — only the intent flips
+      originalRates.set(a, -originalRates.get(a)!)
+    }
+    intended = originalRates.get(a)!
   }
 
-  _observer = new MutationObserver(() => {
-    if (!observerEnabled) return // no-op when disabled — zero overhead
-    if (pendingRAF) return       // coalesce: one flush per frame max
-    pendingRAF = true
-    // Coalesce to rAF (not queueMicrotask) — rAF fires after style recalc,
-    // so getAnimations() actually returns animations on freshly-added nodes.
-    requestAnimationFrame(() => {
-      pendingRAF = false
-      if (_getSpeed && observerEnabled) {
-        applyWAAPI(_getSpeed())
-      }
+  const detail: RateResultDetail = { intended }
+  target.dispatchEvent(new CustomEvent(SLOOOW_RATE_RESULT_EVENT, { detail, composed: true }))
+}
+
+// Elements a mutation batch may have started CSS animations under. A big
+// batch (a list re-rendering) collapses to one common ancestor.
+function mutatedRoots(records: MutationRecord[]): Element[] {
+  const roots = new Set<Element>()
+  for (const record of records) {
+    if (record.type === 'attributes') {
+      if (record.target instanceof Element) roots.add(record.target)
+    } else {
+      record.addedNodes.forEach((node) => { if (node instanceof Element) roots.add(node) })
+    }
+  }
+  if (roots.size <= MAX_SCAN_ROOTS) return [...roots]
+  let common: Element | null = null
+  for (const el of roots) {
+    common ??= el
+    while (common && !common.contains(el)) common = common.parentElement
+  }
+  return [common ?? document.documentElement]
+}
+
+// CSS animations exist from the style change that started them, but
+// animationstart only fires once their delay is over — catch them here so
+// the delay is slowed too. Transitions and scripted ones have earlier events.
+function handleStyleMutations(records: MutationRecord[]): void {
+  if (!interceptionEnabled || !_getSpeed) return
+  const speed = _getSpeed()
+  for (const root of mutatedRoots(records)) {
+    if (!root.isConnected) continue
+    const fresh = root.getAnimations({ subtree: true })
+      .filter((a) => a instanceof CSSAnimation && !originalRates.has(a))
+    if (fresh.length) applyWAAPI(speed, fresh)
+  }
+}
+
+function sweep(): void {
+  if (!interceptionEnabled || !_getSpeed) return
+  const speed = _getSpeed()
+  applyWAAPI(speed)
+  sweepListeners.forEach((listener) => listener(speed))
+}
+
+export function setInterceptionEnabled(enabled: boolean): void {
+  interceptionEnabled = enabled
+  if (enabled && sweepInterval === null) {
+    sweepInterval = setInterval(sweep, SWEEP_INTERVAL)
+    styleObserver = new MutationObserver(handleStyleMutations)
+    styleObserver.observe(document, {
+      subtree: true, childList: true, attributes: true, attributeFilter: ['class', 'style'],
     })
-  })
+  } else if (!enabled && sweepInterval !== null) {
+    clearInterval(sweepInterval)
+    sweepInterval = null
+    styleObserver?.disconnect()
+    styleObserver = null
+  }
+}
 
-  _observer.observe(document.documentElement, {
-    childList: true,
-    subtree: true,
-    attributes: true,
-    // Only watch attributes that commonly trigger CSS animations/transitions
-    attributeFilter: ['class', 'style', 'data-state', 'data-open', 'aria-expanded', 'hidden'],
-  })
+// Runs after each fallback sweep, with the same speed WAAPI got
+export function onSweep(listener: (speed: number) => void): void {
+  sweepListeners.push(listener)
+}
+
+export function startWAAPIInterception(getSpeed: () => number): void {
+  _getSpeed = getSpeed
+  // Capture phase on document: these events don't bubble (ours) or may be
+  // stopped by the page before reaching it (CSS ones)
+  for (const type of [SLOOOW_ANIMATION_EVENT, 'animationstart', 'transitionrun']) {
+    document.removeEventListener(type, handleNewAnimation, true)
+    document.addEventListener(type, handleNewAnimation, true)
+  }
+  document.removeEventListener(SLOOOW_RATE_EVENT, handleRateChange, true)
+  document.addEventListener(SLOOOW_RATE_EVENT, handleRateChange, true)
 }
@@ -1,6 +1,11 @@
 // MAIN world content script — runs at document_start, before any page JS.
 // Patches requestAnimationFrame to scale timestamps, enabling real-time slooow
 // for Framer Motion springs, layout animations, and any custom rAF loops.
+// At 0x the virtual clock stops; STEP messages move it by a fixed amount.
+// Optionally serves the same virtual clock through performance.now(),
+// Date.now(), setTimeout and setInterval (SET_TIME_VIRTUALIZATION).
+// Also announces animations created by Element.prototype.animate and
+// new Animation() so the WAAPI layer can slow them as they start.
 //
 // CRITICAL: This file must have zero imports from chrome.* APIs.
 // It runs in the MAIN execution world alongside page scripts.
@@ -9,40 +14,292 @@ export default defineContentScript({
   matches: ['<all_urls>'],
   world: 'MAIN',
   runAt: 'document_start',
+  // Every frame gets its own clock and token; the isolated-world script
+  // in the same frame drives it, following the top frame's toolbar.
+  allFrames: true,
+  matchAboutBlank: true,
   main() {
-    // Top-frame only — avoid duplicate patches in iframes
-    if (window !== window.top) return
-
     // Idempotency guard — safe against double-injection on HMR or re-navigation
     if ((window as any).__slooowPatched) return
     ;(window as any).__slooowPatched = true
 
     const _originalRAF = window.requestAnimationFrame
+    const _perfNow = performance.now.bind(performance)
     let speedFactor = 1
-    let lastRealTime: number | null = null
-    let virtualTime: number | null = null
     const MAX_DELTA = 100 // ms — caps timestamp jumps after tab switch
 
+    // Shared virtual clock: virtual = baseVirtual + (real - baseReal) * speedFactor.
+    // baseReal stays null until the page is first slowed or stepped, so an
+    // untouched page keeps seeing real timestamps. Speed changes and steps
+    // re-anchor the clock instead of resetting it, so pausing at 0x freezes
+    // time exactly where it was and resuming never jumps.
+    let baseReal: number | null = null
+    let baseVirtual = 0
+    let lastFrameReal: number | null = null
+
+    function virtualNow(real: number): number {
+      if (baseReal === null) return real
+      // max(0, …): a rAF timestamp can predate the message that re-anchored us
+      return baseVirtual + Math.max(0, real - baseReal) * speedFactor
+    }
+
+    function rebase(real: number): void {
+      baseVirtual = virtualNow(real)
+      baseReal = real
+    }
+
     window.requestAnimationFrame = function slooowRAF(callback: FrameRequestCallback): number {
       return _originalRAF.call(window, (realTimestamp: number) => {
-        // At 1x: pass through real timestamps — zero observable difference
-        if (speedFactor === 1) {
+        // At 1x on an untouched clock: pass through real timestamps — zero observable difference
+        if (speedFactor === 1 && baseReal === null) {
           callback(realTimestamp)
           return
         }
 
-        if (lastRealTime === null) {
-          lastRealTime = realTimestamp
-          virtualTime = realTimestamp
-        }
+        if (baseReal === null) rebase(realTimestamp)
 
-        const delta = Math.min(realTimestamp - lastRealTime, MAX_DELTA)
-        lastRealTime = realTimestamp
-        virtualTime! += delta * speedFactor
-        callback(virtualTime!)
+        // Drop real time beyond MAX_DELTA between frames (tab switch, long task)
+        // so the virtual clock doesn't leap forward when frames resume.
+        // Skipped while time is virtualized: performance.now() may already have
+        // served that time, and dropping it would make the clock run backwards.
+        if (!timeVirtualized && lastFrameReal !== null && realTimestamp - lastFrameReal > MAX_DELTA) {
+          baseReal! += realTimestamp - lastFrameReal - MAX_DELTA
+        }
+        lastFrameReal = realTimestamp
+        callback(virtualNow(realTimestamp))
       })
     }
 
+    // ── Time virtualization (optional) ──────────────────────────────────
+    // Plenty of animation code ignores the rAF argument and reads
+    // performance.now() / Date.now() instead (GSAP's ticker, three.js Clock,
+    // Pixi), or moves elements with timers. The wrappers are installed here at
+    // document_start so libraries that cache a reference (GSAP keeps its own
+    // `Date.now`) still get ours — but they pass straight through until the
+    // content script sends SET_TIME_VIRTUALIZATION.
+    const _dateNow = Date.now
+    type NativeSetTimer = (handler: TimerHandler, timeout?: number, ...args: unknown[]) => number
+    const _setTimeout = window.setTimeout.bind(window) as NativeSetTimer
+    const _setInterval = window.setInterval.bind(window) as NativeSetTimer
+    const _clearTimeout = window.clearTimeout.bind(window) as (id?: number) => void
+    const _clearInterval = window.clearInterval.bind(window) as (id?: number) => void
+    let timeVirtualized = false
+
+    performance.now = function slooowPerformanceNow(): number {
+      const real = _perfNow()
+      return timeVirtualized ? virtualNow(real) : real
+    }
+
+    Date.now = function slooowDateNow(): number {
+      if (!timeVirtualized) return _dateNow()
+      const real = _perfNow()
+      return Math.floor(_dateNow() + virtualNow(real) - real)
+    }
+
+    // Virtual timers are due at a virtual time and backed by a native timeout
+    // that is re-armed whenever the clock's speed or position changes.
+    interface VirtualTimer {
+      callback: (...args: unknown[]) => void
+      args: unknown[]
+      due: number // virtual ms
+      interval: number | null
+      realId: number | null
+    }
+
+    const virtualTimers = new Map<number, VirtualTimer>()
+    let nextTimerId = 1e9 // far above native ids so clearTimeout can tell them apart
+
+    function armTimer(id: number, timer: VirtualTimer): void {
+      if (timer.realId !== null) _clearTimeout(timer.realId)
+      timer.realId = null
+      const remaining = timer.due - virtualNow(_perfNow())
+      // Frozen at 0x: stays pending until a speed change or step re-arms it
+      if (remaining > 0 && speedFactor === 0) return
+      const delay = remaining > 0 ? remaining / speedFactor : 0
+      timer.realId = _setTimeout(() => fireTimer(id), delay)
+    }
+
+    function fireTimer(id: number): void {
+      const timer = virtualTimers.get(id)
+      if (!timer) return
+      timer.realId = null
+      if (timer.interval !== null) {
+        // Re-arm before running so the callback can clear its own interval.
+        // Like native intervals, missed ticks are skipped rather than replayed.
+        timer.due = Math.max(timer.due + timer.interval, virtualNow(_perfNow()))
+        armTimer(id, timer)
+      } else {
+        virtualTimers.delete(id)
+      }
+      timer.callback(...timer.args)
+    }
+
+    function rearmTimers(): void {
+      virtualTimers.forEach((timer, id) => armTimer(id, timer))
+    }
+
+    function addTimer(callback: (...args: unknown[]) => void, args: unknown[], delay: number, repeat: boolean): number {
+      const ms = Math.max(0, Number(delay) || 0)
+      const id = nextTimerId++
+      const timer: VirtualTimer = {
+        callback,
+        args,
+        due: virtualNow(_perfNow()) + ms,
+        interval: repeat ? ms : null,
+        realId: null,
+      }
+      virtualTimers.set(id, timer)
+      armTimer(id, timer)
+      return id
+    }
+
+    function clearVirtualTimer(id: number | undefined): boolean {
+      const timer = id === undefined ? undefined : virtualTimers.get(id)
+      if (!timer) return false
+      if (timer.realId !== null) _clearTimeout(timer.realId)
+      virtualTimers.delete(id!)
+      return true
+    }
+
+    // String handlers (eval) always go to the native timers — rare, and not worth emulating.
+    // Timers created while virtualized keep following the virtual clock until they fire.
+    window.setTimeout = function slooowSetTimeout(handler: TimerHandler, timeout?: number, ...args: unknown[]): number {
+      if (!timeVirtualized || typeof handler !== 'function') {
+        return _setTimeout(handler, timeout, ...args)
+      }
+      return addTimer(handler as (...a: unknown[]) => void, args, timeout ?? 0, false)
+    } as typeof window.setTimeout
+
+    window.setInterval = function slooowSetInterval(handler: TimerHandler, timeout?: number, ...args: unknown[]): number {
+      if (!timeVirtualized || typeof handler !== 'function') {
+        return _setInterval(handler, timeout, ...args)
+      }
+      return addTimer(handler as (...a: unknown[]) => void, args, timeout ?? 0, true)
+    } as typeof window.setInterval
+
+    window.clearTimeout = function slooowClearTimeout(id?: number): void {
+      if (!clearVirtualTimer(id)) _clearTimeout(id)
+    } as typeof window.clearTimeout
+
+    window.clearInterval = function slooowClearInterval(id?: number): void {
+      if (!clearVirtualTimer(id)) _clearInterval(id)
+    } as typeof window.clearInterval
+
+    // ── WAAPI creation hooks ─────────────────────────────────────────────
+    // Announces each animation the page creates by script so waapi.ts (isolated
+    // world) can slow it before its first frame, without sweeping the document.
+    // The event is a plain DOM event on the target — the one thing both worlds
+    // see. Name must match SLOOOW_ANIMATION_EVENT in src/shared/types.ts.
+    const ANIMATION_EVENT = 'slooow:animation'
+
+    function announceAnimation(target: Element | null | undefined): void {
+      if (!target || speedFactor === 1) return // nothing to slow at 1x
+      // composed: the capture listener on document must see targets in shadow trees
+      target.dispatchEvent(new Event(ANIMATION_EVENT, { composed: true }))
+    }
+
+    const _animate = Element.prototype.animate
+    Element.prototype.animate = function slooowAnimate(this: Element, ...args: Parameters<Element['animate']>) {
+      const animation = _animate.apply(this, args)
+      announceAnimation(this)
+      return animation
+    }
+
+    // new Animation(effect) stays idle (and out of getAnimations()) until
+    // play(), so constructed instances are remembered and announced there.
+    const _Animation = window.Animation
+    const constructedAnimations = new WeakSet<Animation>()
+    window.Animation = new Proxy(_Animation, {
+      construct(target, args, newTarget) {
+        const animation = Reflect.construct(target, args, newTarget) as Animation
+        constructedAnimations.add(animation)
+        return animation
+      },
+    })
+
+    const _play = _Animation.prototype.play
+    _Animation.prototype.play = function slooowPlay(this: Animation) {
+      _play.call(this)
+      if (constructedAnimations.has(this)) {
+        announceAnimation((this.effect as KeyframeEffect | null)?.target)
+      }
+    }
+
+    // ── Page-initiated rate changes ──────────────────────────────────────
+    // waapi.ts scales playbackRate from a baseline it captures once. When the
+    // page sets a rate itself (playbackRate =, updatePlaybackRate(), reverse())
+    // the call runs natively, then SLOOOW_RATE_EVENT tells waapi.ts, which
+    // re-scales and answers synchronously with the page's intended rate. The
+    // getter reports that intent, so `anim.playbackRate === 1` checks keep
+    // working while slowed. Names must match src/shared/types.ts.
+    const RATE_EVENT = 'slooow:rate'
+    const RATE_RESULT_EVENT = 'slooow:rate-result'
+    const RATE_SYNC_EVENT = 'slooow:rate-sync'
+    // null caches "not managed", so reads on animations Slooow leaves alone
+    // skip the round trip too. RATE_SYNC_EVENT drops every entry.
+    let intendedRates = new WeakMap<Animation, number | null>()
+    let rateResult: number | null = null
+    let syncingRate = false // rate event in flight — page listeners' reads and writes aren't re-synced
+
+    window.addEventListener(RATE_RESULT_EVENT, (e) => {
+      const intended = (e as CustomEvent).detail?.intended
+      rateResult = typeof intended === 'number' ? intended : null
+    }, true)
+
+    window.addEventListener(RATE_SYNC_EVENT, () => {
+      intendedRates = new WeakMap()
+    }, true)
+
+    function syncRate(animation: Animation, kind: 'set' | 'update' | 'reverse' | 'query', rate?: number): void {
+      const target = (animation.effect as KeyframeEffect | null)?.target
+      // Same list, same order as animationsOf() in waapi.ts
+      const index = target
+        ? target.getAnimations({ subtree: true })
+          .filter((a) => (a.effect as KeyframeEffect | null)?.target === target)
+          .indexOf(animation)
+        : -1
+      if (!target || index === -1) { // idle or target-less — waapi.ts captures it once it plays
+        intendedRates.set(animation, null)
+        return
+      }
+      rateResult = null
+      syncingRate = true
+      try {
+        target.dispatchEvent(new CustomEvent(RATE_EVENT, { detail: { index, kind, rate }, composed: true }))
+      } finally {
+        syncingRate = false
+      }
+      intendedRates.set(animation, rateResult)
+    }
+
+    const rateDescriptor = Object.getOwnPropertyDescriptor(_Animation.prototype, 'playbackRate')!
+    Object.defineProperty(_Animation.prototype, 'playbackRate', {
+      ...rateDescriptor,
+      get(this: Animation) {
+        const native = rateDescriptor.get!.call(this) as number
+        // At 1x effective and intended rates agree; otherwise ask once and cache
+        if (speedFactor === 1 || syncingRate) return native
+        if (!intendedRates.has(this)) syncRate(this, 'query')
+        return intendedRates.get(this) ?? native
+      },
+      set(this: Animation, rate: number) {
+        rateDescriptor.set!.call(this, rate)
+        if (!syncingRate) syncRate(this, 'set', rate)
+      },
+    })
+
+    const _updatePlaybackRate = _Animation.prototype.updatePlaybackRate
+    _Animation.prototype.updatePlaybackRate = function slooowUpdatePlaybackRate(this: Animation, rate: number) {
+      _updatePlaybackRate.call(this, rate)
+      if (!syncingRate) syncRate(this, 'update', rate)
+    }
+
+    const _reverse = _Animation.prototype.reverse
+    _Animation.prototype.reverse = function slooowReverse(this: Animation) {
+      _reverse.call(this)
+      if (!syncingRate) syncRate(this, 'reverse')
+    }
+
     // Per-session random token — prevents page scripts from forging SET_SPEED messages.
     // Generated once here, exposed two ways:
     //   1. window.__slooowToken  — read synchronously by content script at document_idle
@@ -59,10 +316,32 @@ export default defineContentScript({
       if (d.token !== SESSION_TOKEN) return // reject forgeries
 
       if (d.type === 'SET_SPEED') {
+        if (typeof d.speed !== 'number' || !(d.speed >= 0) || !isFinite(d.speed)) return
+        // Re-anchor before switching so time already elapsed keeps the old rate.
+        // The first slow-down anchors here too: a page without a rAF loop
+        // still reads the clock through performance.now() and timers.
+        if (baseReal !== null || d.speed !== 1) rebase(_perfNow())
         speedFactor = d.speed as number
-        // Reset virtual time anchor on speed change to avoid a timestamp jump
-        lastRealTime = null
-        virtualTime = null
+        lastFrameReal = null
+        rearmTimers()
+      } else if (d.type === 'STEP') {
+        // Move the virtual clock by a fixed amount — used for frame-by-frame
+        // stepping while frozen at 0x. Negative deltas step backwards.
+        rebase(_perfNow())
+        baseVirtual += d.deltaMs as number
+        lastFrameReal = null
+        rearmTimers()
+      } else if (d.type === 'SET_TIME_VIRTUALIZATION') {
+        const enabled = !!d.enabled
+        if (enabled && !timeVirtualized) {
+          // Catch the virtual clock up to real time first: performance.now()
+          // has been serving real time, so it must never step backwards.
+          // rAF loops see one forward jump instead. Anchors an untouched clock.
+          baseReal = _perfNow()
+          baseVirtual = baseReal
+        }
+        timeVirtualized = enabled
+        lastFrameReal = null
       }
     })
 
@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'vitest'
+import type { AdapterClock, AdapterStatus } from '../types'
+
+// ── Inline the adapter registry logic for unit testing ────────────────
+// Mirrors adapters/index.ts: libraries already slowed by a shared clock
+// get 1x from their own speed control so they aren't slowed twice.
+
+interface MockAdapter {
+  id: string
+  clock: AdapterClock
+  present: boolean
+  controllable: boolean
+  speed: number
+}
+
+interface ClockCoverage { rafIntercepted: boolean; timeVirtualized: boolean }
+
+function createRegistry(adapters: MockAdapter[]) {
+  const applied = new Set<string>()
+
+  function coveredBy(a: MockAdapter, env: ClockCoverage): AdapterStatus['coveredBy'] {
+    if (a.clock === 'raf' && env.rafIntercepted) return 'raf'
+    if (a.clock === 'date' && env.timeVirtualized) return 'date'
+    return null
+  }
+
+  function applyAdapters(speed: number, env: ClockCoverage) {
+    adapters.forEach((a) => {
+      if (!a.present) return
+      const covered = coveredBy(a, env) !== null
+      if (a.controllable) a.speed = covered ? 1 : speed
+      if (a.controllable && !covered) applied.add(a.id)
+      else applied.delete(a.id)
+    })
+  }
+
+  function describe(env: ClockCoverage) {
+    return adapters.filter((a) => a.present).map((a) => ({ id: a.id, applied: applied.has(a.id), coveredBy: coveredBy(a, env) }))
+  }
+
+  return { applyAdapters, describe }
+}
+
+function adapter(id: string, clock: AdapterClock, present = true, controllable = true): MockAdapter {
+  return { id, clock, present, controllable, speed: 1 }
+}
+
+describe('adapter registry', () => {
+  test('rAF-timed libraries get 1x while the rAF patch is in place', () => {
+    const lottie = adapter('lottie', 'raf')
+    const { applyAdapters } = createRegistry([lottie])
+    applyAdapters(0.25, { rafIntercepted: true, timeVirtualized: false })
+    expect(lottie.speed).toBe(1)
+    applyAdapters(0.25, { rafIntercepted: false, timeVirtualized: false })
+    expect(lottie.speed).toBe(0.25)
+  })
+
+  test('Date-timed libraries switch to 1x once time is virtualized', () => {
+    const gsap = adapter('gsap', 'date')
+    const { applyAdapters, describe: status } = createRegistry([gsap])
+    const env = { rafIntercepted: true, timeVirtualized: false }
+    applyAdapters(0.5, env)
+    expect(gsap.speed).toBe(0.5)
+    expect(status(env)[0]).toEqual({ id: 'gsap', applied: true, coveredBy: null })
+
+    const virtualized = { rafIntercepted: true, timeVirtualized: true }
+    applyAdapters(0.5, virtualized)
+    expect(gsap.speed).toBe(1)
+    expect(status(virtualized)[0]).toEqual({ id: 'gsap', applied: false, coveredBy: 'date' })
+  })
+
+  test('status lists only detected libraries; detection-only ones are never applied', () => {
+    const theatre = adapter('theatre', 'raf', true, false)
+    const pixi = adapter('pixi', 'raf', false)
+    const { applyAdapters, describe: status } = createRegistry([theatre, pixi])
+    const env = { rafIntercepted: false, timeVirtualized: false }
+    applyAdapters(0.5, env)
+    expect(status(env)).toEqual([{ id: 'theatre', applied: false, coveredBy: null }])
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, test, expect } from 'vitest'
+import { createVirtualClock } from '../clock'
+
+// ── Anchored virtual clock (drives the SMIL layer) ────────────────────
+
+function createSim(speed = 1) {
+  let real = 1000
+  const clock = createVirtualClock(() => real, speed)
+  return { clock, tick(ms: number) { real += ms } }
+}
+
+describe('virtual clock', () => {
+  test('starts at real time and advances at the given speed', () => {
+    const { clock, tick } = createSim(0.25)
+    expect(clock.now()).toBe(1000)
+    tick(400)
+    expect(clock.now()).toBe(1100)
+  })
+
+  test('speed changes re-anchor without jumping', () => {
+    const { clock, tick } = createSim(0.5)
+    tick(200)
+    clock.setSpeed(2)
+    expect(clock.now()).toBe(1100)
+    tick(100)
+    expect(clock.now()).toBe(1300)
+  })
+
+  test('0x freezes; steps move it by the exact amount', () => {
+    const { clock, tick } = createSim()
+    clock.setSpeed(0)
+    const frozen = clock.now()
+    tick(5000)
+    expect(clock.now()).toBe(frozen)
+    clock.step(16)
+    clock.step(-50)
+    expect(clock.now()).toBe(frozen - 34)
+  })
+})
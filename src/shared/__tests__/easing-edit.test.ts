@@ -0,0 +1,80 @@
+import { describe, test, expect, beforeAll } from 'vitest'
+import type { AnimInfo } from '../../../entrypoints/content/components/EasingPanel'
+import { captureKeyframes } from '../../../entrypoints/content/lib/keyframes'
+import { parseEasing } from '../../../entrypoints/content/lib/easing-parser'
+
+// Minimal KeyframeEffect stand-in: just enough timing and keyframes state
+// for updateTiming()/setKeyframes() to be observed (no DOM in Node)
+class MockKeyframeEffect {
+  target = { isConnected: true }
+  timing = { easing: 'ease-out' }
+  keyframes: ComputedKeyframe[] = [
+    { offset: 0, computedOffset: 0, easing: 'ease-in', composite: 'auto', opacity: '0' },
+    { offset: 1, computedOffset: 1, easing: 'linear', composite: 'auto', opacity: '1' },
+  ]
+  updateTiming(timing: { easing: string }) { this.timing = { ...this.timing, ...timing } }
+  getKeyframes() { return this.keyframes.map(kf => ({ ...kf, computedOffset: kf.offset ?? 0 })) }
+  setKeyframes(kfs: ComputedKeyframe[]) { this.keyframes = kfs }
+}
+
+let edit: typeof import('../../../entrypoints/content/easing-edit')
+
+beforeAll(async () => {
+  ;(globalThis as Record<string, unknown>).KeyframeEffect = MockKeyframeEffect
+  edit = await import('../../../entrypoints/content/easing-edit')
+})
+
+function setup() {
+  const effect = new MockKeyframeEffect()
+  const anim = { effect } as unknown as Animation
+  const info: AnimInfo = {
+    kind: 'waapi',
+    rawEasing: 'ease-out',
+    easing: parseEasing('ease-out'),
+    duration: 300, delay: 0, endDelay: 0, iterations: 1,
+    direction: 'normal', fill: 'auto', composite: 'replace',
+    properties: ['opacity'],
+    keyframes: captureKeyframes(effect.getKeyframes()),
+    source: { animation: new WeakRef(anim), target: null },
+  }
+  return { effect, info }
+}
+
+describe('easing edits', () => {
+  test('effect easing edits go through updateTiming and the snapshot', () => {
+    const { effect, info } = setup()
+    expect(edit.editEasing(info, null, 'cubic-bezier(0.2, 0.8, 0.2, 1)')).toBe(true)
+    expect(effect.timing.easing).toBe('cubic-bezier(0.2, 0.8, 0.2, 1)')
+    expect(info.easing).toMatchObject({ type: 'cubic-bezier', x1: 0.2, y2: 1 })
+    expect(edit.isEasingEdited(info)).toBe(true)
+  })
+
+  test('keyframe edits rewrite only that keyframe', () => {
+    const { effect, info } = setup()
+    edit.editEasing(info, { keyframe: 0 }, 'steps(4)')
+    expect(effect.keyframes.map(kf => kf.easing)).toEqual(['steps(4)', 'linear'])
+    expect(effect.keyframes[0]).not.toHaveProperty('computedOffset')
+    expect(info.keyframes[0].rawEasing).toBe('steps(4)')
+  })
+
+  test('revert restores the original timing and keyframes', () => {
+    const { effect, info } = setup()
+    edit.editEasing(info, null, 'linear')
+    edit.editEasing(info, { keyframe: 0 }, 'ease')
+    edit.editEasing(info, null, 'ease-in')
+    edit.revertEasing(info)
+    expect(effect.timing.easing).toBe('ease-out')
+    expect(effect.keyframes[0].easing).toBe('ease-in')
+    expect(info.rawEasing).toBe('ease-out')
+    expect(info.keyframes[0].rawEasing).toBe('ease-in')
+    expect(edit.isEasingEdited(info)).toBe(false)
+  })
+
+  test('timing-only edits leave the keyframes untouched on revert', () => {
+    const { effect, info } = setup()
+    const before = effect.keyframes
+    edit.editEasing(info, null, 'linear')
+    edit.revertEasing(info)
+    expect(effect.keyframes).toBe(before)
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, test, expect } from 'vitest'
+import {
+  parseEasing,
+  matchNamedEasing,
+  namedEasingLabel,
+  easingDistance,
+  EASING_CATALOG,
+} from '../../../entrypoints/content/lib/easing-parser'
+import { evaluateEasing } from '../../../entrypoints/content/lib/easing-eval'
+
+const at = (raw: string, t: number, before = false) => evaluateEasing(parseEasing(raw), t, before)
+
+describe('parseEasing', () => {
+  test('steps() accepts every CSS Easing Level 2 step position', () => {
+    expect(parseEasing('steps(4, jump-none)')).toEqual({ type: 'steps', count: 4, direction: 'jump-none' })
+    expect(parseEasing('steps(4, jump-both)')).toEqual({ type: 'steps', count: 4, direction: 'jump-both' })
+    expect(parseEasing('steps(4, start)')).toEqual({ type: 'steps', count: 4, direction: 'jump-start' })
+    expect(parseEasing('steps(4)')).toEqual({ type: 'steps', count: 4, direction: 'jump-end' })
+  })
+
+  test('cubic-bezier() rejects x outside [0, 1], keeps overshooting y', () => {
+    expect(parseEasing('cubic-bezier(1.2, 0, 0.5, 1)').type).toBe('unknown')
+    expect(parseEasing('cubic-bezier(0.5, 0, -0.1, 1)').type).toBe('unknown')
+    expect(parseEasing('cubic-bezier(0.5, -0.5, 0.5, 1.5)').type).toBe('cubic-bezier')
+  })
+
+  test('steps() rejects non-spec positions and invalid counts', () => {
+    expect(parseEasing('steps(4, both)').type).toBe('unknown')
+    expect(parseEasing('steps(4, none)').type).toBe('unknown')
+    expect(parseEasing('steps(0)').type).toBe('unknown')
+    expect(parseEasing('steps(1, jump-none)').type).toBe('unknown')
+  })
+
+  test('step-* keywords resolve to single steps', () => {
+    expect(parseEasing('step-start')).toEqual({ type: 'steps', count: 1, direction: 'jump-start' })
+    expect(parseEasing('step-end')).toEqual({ type: 'steps', count: 1, direction: 'jump-end' })
+  })
+
+  test('linear() fills missing positions and keeps them in order', () => {
+    const parsed = parseEasing('linear(0, 0.25 75%, 0.5 25%, 1)')
+    expect(parsed.type).toBe('linear')
+    if (parsed.type !== 'linear') return
+    expect(parsed.stops.map(s => s.position)).toEqual([0, 0.75, 0.75, 1])
+  })
+
+  test('linear() needs two control points', () => {
+    expect(parseEasing('linear(0.5)').type).toBe('unknown')
+  })
+})
+
+describe('evaluateEasing — cubic-bezier', () => {
+  test('named easings hit known midpoints', () => {
+    expect(at('linear', 0.3)).toBeCloseTo(0.3)
+    expect(at('ease-in-out', 0.5)).toBeCloseTo(0.5, 5)
+    expect(at('ease', 0.5)).toBeCloseTo(0.8024, 3)
+    expect(at('ease-in', 0.5)).toBeCloseTo(0.3153, 3)
+  })
+
+  test('endpoints are exact and overshoot is preserved', () => {
+    expect(at('ease-out', 0)).toBe(0)
+    expect(at('ease-out', 1)).toBeCloseTo(1, 6)
+    expect(at('cubic-bezier(0.3, 1.6, 0.6, 1)', 0.5)).toBeGreaterThan(1)
+  })
+
+  test('extrapolates along the end tangents', () => {
+    // Slopes come from the nearest control point with x ≠ the endpoint
+    expect(at('cubic-bezier(0.5, 0.25, 0.5, 1)', -0.5)).toBeCloseTo(-0.25)
+    expect(at('cubic-bezier(0.25, 0, 0.5, 0.75)', 2)).toBeCloseTo(1.5)
+    expect(at('ease-in-out', 1.5)).toBe(1)
+  })
+})
+
+describe('evaluateEasing — linear()', () => {
+  test('interpolates between control points', () => {
+    expect(at('linear(0, 1.2 50%, 1)', 0.25)).toBeCloseTo(0.6)
+    expect(at('linear(0, 0.25 75%, 1)', 0.375)).toBeCloseTo(0.125)
+  })
+
+  test('extrapolates beyond the first and last points', () => {
+    expect(at('linear(0, 1)', 1.5)).toBeCloseTo(1.5)
+    expect(at('linear(0 25%, 1 75%)', 0)).toBeCloseTo(-0.5)
+  })
+
+  test('coincident points jump', () => {
+    const raw = 'linear(0, 0 50%, 1 50%, 1)'
+    expect(at(raw, 0.49)).toBe(0)
+    expect(at(raw, 0.5)).toBe(1)
+  })
+})
+
+describe('evaluateEasing — steps()', () => {
+  test('jump-end and jump-start', () => {
+    expect([0, 0.3, 0.5, 0.99, 1].map(t => at('steps(4)', t))).toEqual([0, 0.25, 0.5, 0.75, 1])
+    expect([0, 0.3, 0.99, 1].map(t => at('steps(4, jump-start)', t))).toEqual([0.25, 0.5, 1, 1])
+  })
+
+  test('jump-both and jump-none', () => {
+    expect([0, 0.5, 1].map(t => at('steps(3, jump-both)', t))).toEqual([0.25, 0.5, 1])
+    expect([0, 0.3, 0.6, 1].map(t => at('steps(3, jump-none)', t))).toEqual([0, 0, 0.5, 1])
+  })
+
+  test('step-start and step-end', () => {
+    expect(at('step-start', 0)).toBe(1)
+    expect(at('step-end', 0.99)).toBe(0)
+    expect(at('step-end', 1)).toBe(1)
+  })
+
+  test('the before flag holds the first step at a jump', () => {
+    expect(at('step-start', 0, true)).toBe(0)
+    expect(at('steps(4, jump-start)', 0, true)).toBe(0)
+    expect(at('steps(4)', 0.3, true)).toBe(0.25)
+  })
+})
+
+describe('matchNamedEasing', () => {
+  const match = (raw: string) => matchNamedEasing(parseEasing(raw))
+
+  test('names exact Material, Penner and GSAP curves', () => {
+    expect(match('cubic-bezier(0.4, 0, 0.2, 1)')).toMatchObject({ exact: true, easing: { name: 'standard', family: 'Material' } })
+    expect(match('cubic-bezier(0.33, 1, 0.68, 1)')).toMatchObject({ exact: true, easing: { name: 'easeOutCubic' } })
+    expect(match('cubic-bezier(0.77, 0, 0.175, 1)')).toMatchObject({ exact: true, easing: { name: 'power3.inOut' } })
+  })
+
+  test('CSS keywords win over curves other systems share', () => {
+    expect(match('cubic-bezier(0.42, 0, 0.58, 1)')?.easing).toMatchObject({ name: 'ease-in-out', family: 'CSS' })
+    expect(match('cubic-bezier(0.25, 0.1, 0.25, 1)')?.easing).toMatchObject({ name: 'ease', family: 'CSS' })
+  })
+
+  test('every catalog entry is reachable — it matches itself', () => {
+    for (const entry of EASING_CATALOG) {
+      const [x1, y1, x2, y2] = entry.bezier
+      expect(matchNamedEasing({ type: 'cubic-bezier', x1, y1, x2, y2 })?.easing).toBe(entry)
+    }
+  })
+
+  test('rounded control points still match exactly', () => {
+    expect(match('cubic-bezier(0.401, 0, 0.199, 1)')?.exact).toBe(true)
+  })
+
+  test('close curves report the nearest name and distance', () => {
+    const near = match('cubic-bezier(0.35, 1, 0.6, 1)')!
+    expect(near.exact).toBe(false)
+    expect(near.distance).toBeGreaterThan(0.005)
+    expect(near.distance).toBeLessThan(0.05)
+  })
+
+  test('curves far from every entry are unnamed', () => {
+    expect(match('cubic-bezier(0.9, -0.5, 0.1, 1.5)')).toBeNull()
+  })
+
+  test('steps and unknown easings never match', () => {
+    expect(match('steps(4)')).toBeNull()
+    expect(match('frobnicate')).toBeNull()
+  })
+
+  test('labels carry the system for non-CSS, non-Penner entries, then aliases', () => {
+    const byName = (name: string) => EASING_CATALOG.find(e => e.name === name)!
+    expect(namedEasingLabel(byName('sharp'))).toBe('Material sharp')
+    expect(namedEasingLabel(byName('easeOutCubic'))).toBe('easeOutCubic')
+    expect(namedEasingLabel(byName('power2.out'))).toBe('GSAP power2.out')
+    expect(namedEasingLabel(byName('standard'))).toBe('Material standard / Tailwind ease-in-out')
+    expect(namedEasingLabel(byName('ease-in-out'))).toBe('ease-in-out / Apple easeInEaseOut')
+  })
+
+  test('distance is zero for identical curves and symmetric', () => {
+    const a = parseEasing('ease-out')
+    const b = parseEasing('cubic-bezier(0.33, 1, 0.68, 1)')
+    expect(easingDistance(a, a)).toBe(0)
+    expect(easingDistance(a, b)).toBeCloseTo(easingDistance(b, a), 9)
+  })
+})
+
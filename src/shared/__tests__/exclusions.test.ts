@@ -0,0 +1,18 @@
+import { describe, test, expect } from 'vitest'
+import { normalizeRules, exclusionSelector } from '../../../entrypoints/content/exclusions'
+
+describe('exclusion rules', () => {
+  test('rules are trimmed, de-duplicated and blanks dropped', () => {
+    expect(normalizeRules([' .marquee ', '', 'video.player', '.marquee', '   '])).toEqual(['.marquee', 'video.player'])
+  })
+
+  test('no rules means no selector — nothing is excluded', () => {
+    expect(exclusionSelector([])).toBeNull()
+  })
+
+  test('one selector matches each rule target and its descendants', () => {
+    expect(exclusionSelector(['.marquee', '[data-ticker]'])).toBe(
+      ':is(.marquee, [data-ticker]), :is(.marquee, [data-ticker]) *',
+    )
+  })
+})
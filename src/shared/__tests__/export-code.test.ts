@@ -0,0 +1,191 @@
+import { describe, test, expect } from 'vitest'
+import { exportAnimations, easingFunctionSource } from '../../../entrypoints/content/lib/export-code'
+import { captureKeyframes } from '../../../entrypoints/content/lib/keyframes'
+import { parseEasing } from '../../../entrypoints/content/lib/easing-parser'
+import { springPosition } from '../../../entrypoints/content/lib/spring-fit'
+import type { AnimInfo } from '../../../entrypoints/content/components/EasingPanel'
+
+function anim(overrides: Partial<AnimInfo> = {}, easing = 'ease-out'): AnimInfo {
+  return {
+    kind: 'waapi',
+    target: 'div.card',
+    rawEasing: easing,
+    easing: parseEasing(easing),
+    duration: 400,
+    delay: 0,
+    endDelay: 0,
+    iterations: 1,
+    direction: 'normal',
+    fill: 'auto',
+    composite: 'replace',
+    properties: ['opacity', 'transform'],
+    keyframes: captureKeyframes([
+      { offset: 0, computedOffset: 0, easing: 'linear', composite: 'auto', opacity: '0', transform: 'translateY(8px)' },
+      { offset: 1, computedOffset: 1, easing: 'linear', composite: 'auto', opacity: '1', transform: 'none' },
+    ]),
+    ...overrides,
+  }
+}
+
+// Evaluates generated easing source so its shape can be checked numerically
+function compile(source: string | null): (t: number) => number {
+  return new Function(`return ${source}`)()
+}
+
+describe('CSS export', () => {
+  test('emits @keyframes plus the animation shorthand', () => {
+    const css = exportAnimations([anim({ kind: 'css-animation', name: 'fade-in', iterations: Infinity, direction: 'alternate' })], 'css')
+    expect(css).toContain('@keyframes fade-in {')
+    expect(css).toContain('div.card {\n  animation: fade-in 400ms ease-out 0ms infinite alternate none;\n}')
+  })
+
+  test('transitions export the transition shorthand with from → to values', () => {
+    const css = exportAnimations([anim({ kind: 'css-transition', name: 'opacity', delay: 50 })], 'css')
+    expect(css).not.toContain('@keyframes')
+    expect(css).toContain('transition: opacity 400ms ease-out 50ms;')
+    expect(css).toContain('/* opacity: 0 → 1 */')
+  })
+
+  test('a whole-animation easing over several segments is flagged, not put in the shorthand', () => {
+    const keyframes = captureKeyframes([
+      { offset: 0, computedOffset: 0, easing: 'linear', composite: 'auto', opacity: '0' },
+      { offset: 0.5, computedOffset: 0.5, easing: 'linear', composite: 'auto', opacity: '0.5' },
+      { offset: 1, computedOffset: 1, easing: 'linear', composite: 'auto', opacity: '1' },
+    ])
+    const css = exportAnimations([anim({ keyframes }, 'ease-in')], 'css')
+    expect(css).toContain('/* easing ease-in spans the whole animation — CSS can only ease each keyframe segment */')
+    expect(css).toContain('animation: animation 400ms linear 0ms')
+  })
+
+  test('keeps pseudo-elements on the rule selector', () => {
+    const css = exportAnimations([anim({ target: 'div.card::after', pseudoElement: '::after' })], 'css')
+    expect(css).toContain('div.card::after {')
+  })
+
+  test('spring linear() and steps() pass through verbatim', () => {
+    const spring = 'linear(0, 0.6 20%, 1.1 45%, 1)'
+    expect(exportAnimations([anim({}, spring)], 'css')).toContain(`animation: animation 400ms ${spring} 0ms`)
+    expect(exportAnimations([anim({}, 'steps(4, jump-start)')], 'css')).toContain('steps(4, jump-start)')
+  })
+})
+
+describe('WAAPI export', () => {
+  test('emits keyframes and only non-default timing', () => {
+    const js = exportAnimations([anim({ delay: 100, pseudoElement: '::before', target: 'div.card::before' })], 'waapi')
+    expect(js).toMatch(/^document\.querySelector\("div\.card"\)\.animate\(\[/)
+    expect(js).toContain('opacity: 0,')
+    expect(js).toContain('transform: "translateY(8px)",')
+    expect(js).toContain('delay: 100,')
+    expect(js).toContain('easing: "ease-out",')
+    expect(js).toContain('pseudoElement: "::before",')
+    expect(js).not.toContain('iterations')
+    expect(js).not.toContain('direction')
+  })
+
+  test('infinite iterations become Infinity', () => {
+    expect(exportAnimations([anim({ iterations: Infinity })], 'waapi')).toContain('iterations: Infinity,')
+  })
+})
+
+describe('Framer Motion export', () => {
+  test('maps named easings and converts ms to seconds', () => {
+    const js = exportAnimations([anim({ delay: 150 })], 'framer')
+    expect(js).toContain('opacity: [0, 1],')
+    expect(js).toContain('duration: 0.4,')
+    expect(js).toContain('delay: 0.15,')
+    expect(js).toContain('ease: "easeOut",')
+  })
+
+  test('custom cubic-bezier becomes a control point array', () => {
+    expect(exportAnimations([anim({}, 'cubic-bezier(0.2, 0.8, 0.2, 1)')], 'framer')).toContain('ease: [0.2, 0.8, 0.2, 1],')
+  })
+
+  test('alternating repeats use repeatType reverse', () => {
+    const js = exportAnimations([anim({ iterations: 3, direction: 'alternate' })], 'framer')
+    expect(js).toContain('repeat: 2,')
+    expect(js).toContain('repeatType: "reverse",')
+  })
+
+  test('linear() springs become an inline easing function', () => {
+    expect(exportAnimations([anim({}, 'linear(0, 1.1 60%, 1)')], 'framer')).toContain('ease: (t) => {')
+  })
+
+  test('sampled springs export as a spring transition', () => {
+    // Framer-style linear(): k = 300, c = 20 sampled over 700ms
+    const omega = Math.sqrt(300)
+    const values = Array.from({ length: 41 }, (_, i) =>
+      springPosition(omega, 20 / (2 * omega), (i / 40) * 0.7).toFixed(4))
+    const js = exportAnimations([anim({ duration: 700 }, `linear(${values.join(', ')})`)], 'framer')
+    expect(js).toContain('type: "spring",')
+    expect(js).toMatch(/bounce: 0\.4\d?,/)
+    expect(js).not.toContain('ease:')
+  })
+})
+
+describe('GSAP export', () => {
+  test('two keyframes become fromTo with a CustomEase', () => {
+    const js = exportAnimations([anim({ iterations: Infinity, direction: 'alternate' })], 'gsap')
+    const lines = js.split('\n')
+    expect(lines[0]).toBe('// requires gsap/CustomEase (gsap.registerPlugin(CustomEase))')
+    expect(lines[1]).toMatch(/^gsap\.fromTo\("div\.card", \{/)
+    expect(js).toContain("ease: CustomEase.create('ease-out', 'M0,0 C0,0,0.58,1 1,1'),")
+    expect(js).toContain('repeat: -1,')
+    expect(js).toContain('yoyo: true,')
+  })
+
+  test('linear easing maps to none', () => {
+    expect(exportAnimations([anim({}, 'linear')], 'gsap')).toContain('ease: "none",')
+  })
+
+  test('curves GSAP ships become built-in eases, without the plugin', () => {
+    const cubic = exportAnimations([anim({}, 'cubic-bezier(0.33, 1, 0.68, 1)')], 'gsap')
+    expect(cubic).toContain('ease: "power2.out",')
+    expect(cubic).not.toContain('CustomEase')
+    expect(exportAnimations([anim({}, 'cubic-bezier(0.68, -0.6, 0.32, 1.6)')], 'gsap')).toContain('ease: "back.inOut",')
+    expect(exportAnimations([anim({}, 'cubic-bezier(0.165, 0.84, 0.44, 1)')], 'gsap')).toContain('ease: "power3.out",')
+  })
+
+  test('percentage keyframes put each segment ease on the keyframe it ends at', () => {
+    const keyframes = captureKeyframes([
+      { offset: 0, computedOffset: 0, easing: 'cubic-bezier(0.33, 1, 0.68, 1)', composite: 'auto', opacity: '0' },
+      { offset: 0.5, computedOffset: 0.5, easing: 'linear', composite: 'auto', opacity: '0.5' },
+      { offset: 1, computedOffset: 1, easing: 'linear', composite: 'auto', opacity: '1' },
+    ])
+    const js = exportAnimations([anim({ keyframes }, 'linear')], 'gsap')
+    expect(js).toContain('"0%": {\n      opacity: 0,\n    },')
+    expect(js).toContain('"50%": {\n      opacity: 0.5,\n      ease: "power2.out",\n    },')
+    expect(js).toContain('"100%": {\n      opacity: 1,\n    },')
+    // Keyframes without an ease stay linear instead of GSAP's power1.inOut
+    expect(js).toContain('easeEach: "none",')
+  })
+
+  test('groups become a timeline with delays as positions', () => {
+    const js = exportAnimations([anim({ delay: 0 }), anim({ delay: 80 }), anim({ delay: 160 })], 'gsap')
+    const lines = js.split('\n')
+    expect(lines[1]).toBe('const tl = gsap.timeline()')
+    expect(js).toMatch(/\}, 0\.08\)/)
+    expect(js).toMatch(/\}, 0\.16\)/)
+    expect(js).not.toContain('delay:')
+  })
+})
+
+describe('easingFunctionSource', () => {
+  test('linear() stops interpolate piecewise', () => {
+    const f = compile(easingFunctionSource(parseEasing('linear(0, 1.2 50%, 1)')))
+    expect(f(0)).toBe(0)
+    expect(f(0.25)).toBeCloseTo(0.6)
+    expect(f(0.5)).toBeCloseTo(1.2)
+    expect(f(1)).toBe(1)
+  })
+
+  test('steps() follow their jump position', () => {
+    const end = compile(easingFunctionSource(parseEasing('steps(4)')))
+    expect(end(0.3)).toBe(0.25)
+    const start = compile(easingFunctionSource(parseEasing('steps(4, start)')))
+    expect(start(0.3)).toBe(0.5)
+  })
+
+  test('cubic-bezier has no function form', () => {
+    expect(easingFunctionSource(parseEasing('ease'))).toBeNull()
+  })
+})
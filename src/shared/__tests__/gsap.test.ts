@@ -20,20 +20,30 @@ function createGSAPController() {
     originalTimeScale = null
   }
 
+  function stepGSAP(deltaMs: number, tl: { timeScale: (n?: number) => number; totalTime: (n?: number) => number }): void {
+    const baseline = originalTimeScale ?? tl.timeScale()
+    tl.totalTime(Math.max(0, tl.totalTime() + (deltaMs / 1000) * baseline))
+  }
+
   function getOriginalTimeScale() {
     return originalTimeScale
   }
 
-  return { applyGSAP, resetGSAP, getOriginalTimeScale }
+  return { applyGSAP, resetGSAP, stepGSAP, getOriginalTimeScale }
 }
 
 function makeMockTimeline(initial: number) {
   let current = initial
+  let time = 0
   return {
     timeScale: vi.fn((n?: number) => {
       if (n !== undefined) current = n
       return current
     }),
+    totalTime: vi.fn((n?: number) => {
+      if (n !== undefined) time = n
+      return time
+    }),
   }
 }
 
@@ -90,4 +100,21 @@ describe('GSAP timeScale logic', () => {
     ctrl.applyGSAP(0.1, tl)
     expect(tl.timeScale).toHaveBeenLastCalledWith(0.1)
   })
+
+  test('0x: timeScale(0) freezes, reset restores baseline', () => {
+    const tl = makeMockTimeline(2)
+    ctrl.applyGSAP(0, tl)
+    expect(tl.timeScale).toHaveBeenLastCalledWith(0)
+    ctrl.resetGSAP(tl)
+    expect(tl.timeScale).toHaveBeenLastCalledWith(2)
+  })
+
+  test('step seeks totalTime in seconds, scaled by baseline and clamped at 0', () => {
+    const tl = makeMockTimeline(2)
+    ctrl.applyGSAP(0, tl)
+    ctrl.stepGSAP(100, tl)
+    expect(tl.totalTime).toHaveBeenLastCalledWith(0.2) // 100ms * 2 baseline
+    ctrl.stepGSAP(-500, tl)
+    expect(tl.totalTime).toHaveBeenLastCalledWith(0)
+  })
 })
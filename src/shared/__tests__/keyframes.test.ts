@@ -0,0 +1,89 @@
+import { describe, test, expect } from 'vitest'
+import {
+  captureKeyframes,
+  segmentsOf,
+  hasKeyframeEasing,
+  formatKeyframesCSS,
+} from '../../../entrypoints/content/lib/keyframes'
+
+// Shape getKeyframes() returns for a CSS animation like
+// @keyframes bounce { 0% { … ease-out } 60% { … ease-in } 100% { … } }
+function bounceKeyframes(): ComputedKeyframe[] {
+  return [
+    { offset: 0, computedOffset: 0, easing: 'ease-out', composite: 'auto', transform: 'translateY(0px)', opacity: '1' },
+    { offset: 0.6, computedOffset: 0.6, easing: 'ease-in', composite: 'auto', transform: 'translateY(-40px)', opacity: '0.5' },
+    { offset: 1, computedOffset: 1, easing: 'ease', composite: 'auto', transform: 'translateY(0px)', opacity: '1' },
+  ]
+}
+
+describe('captureKeyframes', () => {
+  test('keeps offset, easing and property values per keyframe', () => {
+    const kfs = captureKeyframes(bounceKeyframes())
+    expect(kfs).toHaveLength(3)
+    expect(kfs[1].offset).toBe(0.6)
+    expect(kfs[1].rawEasing).toBe('ease-in')
+    expect(kfs[1].easing).toMatchObject({ type: 'cubic-bezier', name: 'ease-in' })
+    expect(kfs[1].values).toEqual({ transform: 'translateY(-40px)', opacity: '0.5' })
+  })
+
+  test('uses computedOffset when the authored offset is null', () => {
+    const kfs = captureKeyframes([
+      { offset: null, computedOffset: 0, easing: 'linear', composite: 'auto', opacity: '0' },
+      { offset: null, computedOffset: 1, easing: 'linear', composite: 'auto', opacity: '1' },
+    ])
+    expect(kfs.map((k) => k.offset)).toEqual([0, 1])
+  })
+})
+
+describe('segments', () => {
+  test('the last keyframe does not start a segment', () => {
+    const kfs = captureKeyframes(bounceKeyframes())
+    expect(segmentsOf(kfs).map((k) => k.rawEasing)).toEqual(['ease-out', 'ease-in'])
+  })
+
+  test('WAAPI keyframes with only linear segments have no keyframe easing', () => {
+    const kfs = captureKeyframes([
+      { offset: null, computedOffset: 0, easing: 'linear', composite: 'auto', opacity: '0' },
+      { offset: null, computedOffset: 1, easing: 'ease-in', composite: 'auto', opacity: '1' },
+    ])
+    expect(hasKeyframeEasing(kfs)).toBe(false)
+  })
+
+  test('any eased segment counts', () => {
+    expect(hasKeyframeEasing(captureKeyframes(bounceKeyframes()))).toBe(true)
+  })
+})
+
+describe('formatKeyframesCSS', () => {
+  test('writes each segment easing on its starting keyframe', () => {
+    const css = formatKeyframesCSS(captureKeyframes(bounceKeyframes()), 'bounce')
+    expect(css).toBe([
+      '@keyframes bounce {',
+      '  0% {',
+      '    transform: translateY(0px);',
+      '    opacity: 1;',
+      '    animation-timing-function: ease-out;',
+      '  }',
+      '  60% {',
+      '    transform: translateY(-40px);',
+      '    opacity: 0.5;',
+      '    animation-timing-function: ease-in;',
+      '  }',
+      '  100% {',
+      '    transform: translateY(0px);',
+      '    opacity: 1;',
+      '  }',
+      '}',
+    ].join('\n'))
+  })
+
+  test('kebab-cases property names and rounds offsets', () => {
+    const css = formatKeyframesCSS(captureKeyframes([
+      { offset: 0, computedOffset: 0, easing: 'steps(2, end)', composite: 'auto', backgroundColor: 'red' },
+      { offset: 1 / 3, computedOffset: 1 / 3, easing: 'linear', composite: 'auto', backgroundColor: 'blue' },
+    ]))
+    expect(css).toContain('background-color: red;')
+    expect(css).toContain('33.33% {')
+    expect(css).toContain('animation-timing-function: steps(2, end);')
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest'
+import { applyAdapters, resetAdapters, describeAdapters } from '../../../entrypoints/content/adapters'
+
+// ── Lottie through the real registry ──────────────────────────────────
+// A stub lottie-web global stands in for the page; the rAF layer is what
+// slows it, so its own speed must be left alone.
+
+function makeAnimationItem(playSpeed = 1) {
+  const item = { playSpeed, setSpeed: (n: number) => { item.playSpeed = n } }
+  return item
+}
+
+describe('Lottie adapter', () => {
+  let item: ReturnType<typeof makeAnimationItem>
+
+  beforeEach(() => {
+    item = makeAnimationItem(2)
+    ;(globalThis as any).window = { lottie: { getRegisteredAnimations: () => [item] } }
+    ;(globalThis as any).document = { querySelector: () => null, querySelectorAll: () => [] }
+  })
+
+  afterEach(() => {
+    resetAdapters()
+    delete (globalThis as any).window
+    delete (globalThis as any).document
+  })
+
+  test('keeps its authored speed while the rAF patch slows it', () => {
+    const env = { rafIntercepted: true, timeVirtualized: false }
+    applyAdapters(0.25, env)
+    expect(item.playSpeed).toBe(2)
+    expect(describeAdapters(env)).toEqual([
+      { id: 'lottie', name: 'Lottie', applied: false, coveredBy: 'raf', detail: '1 animation' },
+    ])
+  })
+
+  test('is never reported as applied — it has no speed Slooow drives', () => {
+    const env = { rafIntercepted: false, timeVirtualized: false }
+    applyAdapters(0.25, env)
+    expect(item.playSpeed).toBe(2)
+    expect(describeAdapters(env)[0]).toMatchObject({ applied: false, coveredBy: null })
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, test, expect } from 'vitest'
+import { DEFAULT_MEDIA_OPTIONS, type MediaOptions } from '../types'
+
+// ── Inline the media layer logic for unit testing ─────────────────────
+// Mirrors media.ts without the DOM: plain objects stand in for
+// HTMLMediaElement, and the setter throws like Chrome does for rates
+// outside [1/16, 16].
+
+type MockMedia = { playbackRate: number; muted: boolean; preservesPitch: boolean; currentTime: number }
+
+function createMockMedia(rate = 1, muted = false): MockMedia {
+  let playbackRate = rate
+  return {
+    get playbackRate() { return playbackRate },
+    set playbackRate(v: number) {
+      if (v !== 0 && (Math.abs(v) < 0.0625 || Math.abs(v) > 16)) throw new DOMException('NotSupportedError')
+      playbackRate = v
+    },
+    muted,
+    preservesPitch: true,
+    currentTime: 0,
+  }
+}
+
+function createMediaController(options: MediaOptions = DEFAULT_MEDIA_OPTIONS) {
+  const originals = new WeakMap<MockMedia, { playbackRate: number; muted: boolean; preservesPitch: boolean }>()
+
+  function clampRate(rate: number): number {
+    if (Math.abs(rate) < 0.0625) return 0
+    const sign = rate < 0 ? -1 : 1
+    return sign * Math.min(16, Math.max(0.0625, Math.abs(rate)))
+  }
+
+  function applyMedia(speed: number, elements: MockMedia[]) {
+    elements.forEach((el) => {
+      if (!originals.has(el)) {
+        originals.set(el, { playbackRate: el.playbackRate, muted: el.muted, preservesPitch: el.preservesPitch })
+      }
+      const baseline = originals.get(el)!
+      el.playbackRate = clampRate(baseline.playbackRate * speed)
+      el.preservesPitch = options.preservePitch
+      el.muted = options.mute || baseline.muted
+    })
+  }
+
+  function resetMedia(elements: MockMedia[]) {
+    elements.forEach((el) => {
+      const baseline = originals.get(el)
+      if (!baseline) return
+      el.playbackRate = baseline.playbackRate
+      el.muted = baseline.muted
+      el.preservesPitch = baseline.preservesPitch
+      originals.delete(el)
+    })
+  }
+
+  function stepMedia(deltaMs: number, elements: MockMedia[]) {
+    elements.forEach((el) => {
+      const rate = originals.get(el)?.playbackRate ?? el.playbackRate
+      el.currentTime = Math.max(0, el.currentTime + (deltaMs / 1000) * rate)
+    })
+  }
+
+  return { applyMedia, resetMedia, stepMedia }
+}
+
+describe('media layer', () => {
+  test('scales from the original rate, not the current one', () => {
+    const { applyMedia } = createMediaController()
+    const video = createMockMedia(2)
+    applyMedia(0.5, [video])
+    applyMedia(0.25, [video])
+    expect(video.playbackRate).toBe(0.5)
+  })
+
+  test('0x sets rate 0 instead of pausing', () => {
+    const { applyMedia } = createMediaController()
+    const video = createMockMedia()
+    applyMedia(0, [video])
+    expect(video.playbackRate).toBe(0)
+  })
+
+  test('clamps rates above the browser maximum', () => {
+    const { applyMedia } = createMediaController()
+    const video = createMockMedia(4)
+    expect(() => applyMedia(8, [video])).not.toThrow()
+    expect(video.playbackRate).toBe(16)
+  })
+
+  test('freezes below the browser minimum instead of playing too fast', () => {
+    const { applyMedia } = createMediaController()
+    const video = createMockMedia()
+    expect(() => applyMedia(0.01, [video])).not.toThrow()
+    expect(video.playbackRate).toBe(0)
+    applyMedia(0.0625, [video])
+    expect(video.playbackRate).toBe(0.0625)
+  })
+
+  test('reset restores rate, mute and pitch', () => {
+    const { applyMedia, resetMedia } = createMediaController({ mute: true, preservePitch: false })
+    const audio = createMockMedia(1.5)
+    applyMedia(0.5, [audio])
+    expect(audio.muted).toBe(true)
+    expect(audio.preservesPitch).toBe(false)
+    resetMedia([audio])
+    expect(audio.playbackRate).toBe(1.5)
+    expect(audio.muted).toBe(false)
+    expect(audio.preservesPitch).toBe(true)
+  })
+
+  test('a page-muted element stays muted with the mute option off', () => {
+    const { applyMedia } = createMediaController()
+    const video = createMockMedia(1, true)
+    applyMedia(0.5, [video])
+    expect(video.muted).toBe(true)
+  })
+
+  test('step advances currentTime (s) at the baseline rate', () => {
+    const { applyMedia, stepMedia } = createMediaController()
+    const video = createMockMedia(2)
+    applyMedia(0, [video])
+    stepMedia(100, [video])
+    expect(video.currentTime).toBeCloseTo(0.2)
+    stepMedia(-500, [video])
+    expect(video.currentTime).toBe(0)
+  })
+})
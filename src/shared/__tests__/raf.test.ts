@@ -7,39 +7,57 @@ const MAX_DELTA = 100
 
 function createRAFSim(initialSpeed: number) {
   let speedFactor = initialSpeed
-  let lastRealTime: number | null = null
-  let virtualTime: number | null = null
+  let baseReal: number | null = null
+  let baseVirtual = 0
+  let lastFrameReal: number | null = null
+  let lastTimestamp: number | null = null
+  let now = 0 // simulated real clock
+
+  function virtualNow(real: number): number {
+    if (baseReal === null) return real
+    return baseVirtual + Math.max(0, real - baseReal) * speedFactor
+  }
+
+  function rebase(real: number): void {
+    baseVirtual = virtualNow(real)
+    baseReal = real
+  }
 
   return {
     setSpeed(speed: number) {
+      // Mirrors inject.ts: re-anchor on speed change to avoid timestamp jump
+      if (baseReal !== null) rebase(now)
       speedFactor = speed
-      // Mirrors inject.ts: reset anchors on speed change to avoid timestamp jump
-      lastRealTime = null
-      virtualTime = null
+      lastFrameReal = null
+    },
+
+    step(deltaMs: number) {
+      rebase(now)
+      baseVirtual += deltaMs
+      lastFrameReal = null
     },
 
     // Advance by `realDelta` ms of real time.
     // Returns the virtual time delta that a callback would experience.
     advance(realDelta: number): number {
-      const realTimestamp = (lastRealTime ?? 0) + realDelta
+      now += realDelta
 
-      if (speedFactor === 1) {
+      if (speedFactor === 1 && baseReal === null) {
         // Pass-through path — no manipulation
-        lastRealTime = realTimestamp
+        lastTimestamp = now
         return realDelta
       }
 
-      if (lastRealTime === null) {
-        lastRealTime = realTimestamp
-        virtualTime = realTimestamp
-        return 0
+      if (baseReal === null) rebase(now)
+      if (lastFrameReal !== null && now - lastFrameReal > MAX_DELTA) {
+        baseReal! += now - lastFrameReal - MAX_DELTA
       }
+      lastFrameReal = now
 
-      const delta = Math.min(realTimestamp - lastRealTime, MAX_DELTA)
-      const before = virtualTime!
-      lastRealTime = realTimestamp
-      virtualTime! += delta * speedFactor
-      return virtualTime! - before
+      const timestamp = virtualNow(now)
+      const before = lastTimestamp
+      lastTimestamp = timestamp
+      return before === null ? 0 : timestamp - before
     },
   }
 }
@@ -103,4 +121,42 @@ describe('rAF virtual time math', () => {
     // Each frame should deliver ~4ms virtual at 0.25x
     expect(d1).toBeCloseTo(4, 0)
   })
+
+  test('0x: virtual time stops advancing', () => {
+    const sim = createRAFSim(0.25)
+    sim.advance(0)
+    sim.advance(100)
+    sim.setSpeed(0)
+    expect(sim.advance(16)).toBe(0)
+    expect(sim.advance(100)).toBe(0)
+  })
+
+  test('freezing does not jump the clock back to real time', () => {
+    const sim = createRAFSim(0.25)
+    sim.advance(0)
+    sim.advance(100)    // virtual lags real by 75ms
+    sim.setSpeed(0)
+    sim.advance(16)
+    sim.setSpeed(0.25)  // resume
+    sim.advance(0)
+    expect(sim.advance(100)).toBeCloseTo(25)
+  })
+
+  test('step moves a frozen clock by exactly deltaMs', () => {
+    const sim = createRAFSim(0)
+    sim.advance(0)
+    sim.step(16)
+    expect(sim.advance(16)).toBeCloseTo(16)
+    expect(sim.advance(16)).toBe(0) // still frozen after the step
+  })
+
+  test('negative step moves the clock backwards', () => {
+    const sim = createRAFSim(0)
+    sim.advance(0)
+    sim.step(100)
+    sim.advance(16)
+    sim.step(-50)
+    expect(sim.advance(16)).toBeCloseTo(-50)
+  })
 })
+
@@ -0,0 +1,134 @@
+import { describe, test, expect, afterEach } from 'vitest'
+import type { AnimInfo } from '../../../entrypoints/content/components/EasingPanel'
+import { replay } from '../../../entrypoints/content/replay'
+import { applyWAAPI, resetWAAPI } from '../../../entrypoints/content/waapi'
+import { parseEasing } from '../../../entrypoints/content/lib/easing-parser'
+
+// Finite Animation stand-in — finished resolves when the test says so
+function mockAnimation() {
+  let finish = () => {}
+  const anim = {
+    playbackRate: 1,
+    currentTime: 1000 as number | null,
+    playState: 'finished' as AnimationPlayState,
+    effect: {
+      target: { isConnected: true },
+      getComputedTiming: () => ({ delay: 0, activeDuration: 1000, duration: 1000 }),
+    },
+    finished: Promise.resolve(),
+    play() {
+      this.playState = 'running'
+      this.finished = new Promise<void>((resolve) => { finish = resolve })
+    },
+    pause() { this.playState = 'paused' },
+  }
+  return { anim, finish: () => finish() }
+}
+
+function infoFor(anim: object): AnimInfo {
+  return {
+    kind: 'waapi',
+    rawEasing: 'linear',
+    easing: parseEasing('linear'),
+    duration: 1000, delay: 0, endDelay: 0, iterations: 1,
+    direction: 'normal', fill: 'auto', composite: 'replace',
+    properties: [], keyframes: [],
+    source: { animation: new WeakRef(anim as Animation), target: null },
+  }
+}
+
+type MockAnimation = ReturnType<typeof mockAnimation>['anim']
+
+function animationOn(target: object, pseudoElement: string | null): MockAnimation {
+  const { anim } = mockAnimation()
+  Object.assign(anim.effect, { target, pseudoElement })
+  return anim
+}
+
+// Element stand-in — like the real one, only a subtree query reaches
+// pseudo-element and descendant animations
+function mockHost() {
+  const own: MockAnimation[] = []
+  const host = {
+    isConnected: true,
+    style: {},
+    animate(_keyframes: unknown, options: KeyframeAnimationOptions) {
+      own.push(animationOn(host, options.pseudoElement ?? null))
+    },
+    dispatchEvent: () => true,
+    getAnimations(options?: GetAnimationsOptions): MockAnimation[] {
+      const child = animationOn({ isConnected: true }, null)
+      return options?.subtree
+        ? [...own, child]
+        : own.filter((a) => !(a.effect as unknown as KeyframeEffect).pseudoElement)
+    },
+  }
+  return { host, own }
+}
+
+describe('replay', () => {
+  afterEach(() => {
+    delete (globalThis as any).CSSAnimation
+    delete (globalThis as any).CSSTransition
+  })
+
+  test('a sweep during a reverse replay keeps it reversed', async () => {
+    const { anim, finish } = mockAnimation()
+    const a = anim as unknown as Animation
+    applyWAAPI(0.25, [a])
+    expect(anim.playbackRate).toBe(0.25)
+
+    const done = replay(infoFor(anim), 'reverse')
+    expect(anim.playbackRate).toBe(-0.25)
+    expect(anim.currentTime).toBe(1000)
+
+    applyWAAPI(0.25, [a]) // the periodic sweep
+    expect(anim.playbackRate).toBe(-0.25)
+
+    finish()
+    await done
+    // The page's own direction is back, without playing forward again
+    expect(anim.playbackRate).toBe(0.25)
+    expect(anim.playState).toBe('paused')
+
+    resetWAAPI([a])
+    expect(anim.playbackRate).toBe(1)
+  })
+
+  test('forward replays leave the baseline alone', async () => {
+    const { anim, finish } = mockAnimation()
+    const a = anim as unknown as Animation
+    applyWAAPI(0.5, [a])
+    const done = replay(infoFor(anim), 'forward')
+    expect(anim.currentTime).toBe(0)
+    applyWAAPI(0.5, [a])
+    expect(anim.playbackRate).toBe(0.5)
+    finish()
+    await done
+    expect(anim.playState).toBe('running')
+    resetWAAPI([a])
+    expect(anim.playbackRate).toBe(1)
+  })
+
+  test('a re-created pseudo-element animation is found on its host', () => {
+    ;(globalThis as any).CSSAnimation = class {}
+    ;(globalThis as any).CSSTransition = class {}
+    const { host, own } = mockHost()
+    own.push(animationOn(host, '::after'))
+    const gone = { effect: { target: { isConnected: false } } }
+    const info: AnimInfo = {
+      ...infoFor(gone),
+      keyframes: [
+        { offset: 0, rawEasing: 'linear', easing: parseEasing('linear'), values: { opacity: '0' } },
+        { offset: 1, rawEasing: 'linear', easing: parseEasing('linear'), values: { opacity: '1' } },
+      ],
+      pseudoElement: '::before',
+    }
+    info.source = { animation: new WeakRef(gone as unknown as Animation), target: new WeakRef(host as unknown as Element) }
+
+    void replay(info, 'forward')
+    expect(own).toHaveLength(2)
+    expect(info.source?.animation.deref()).toBe(own[1])
+    resetWAAPI([own[1] as unknown as Animation])
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'vitest'
+import { clampSpeed, speedToSlider, sliderToSpeed, formatSpeed, SPEED_SLIDER_STEPS } from '../speed'
+
+describe('clampSpeed', () => {
+  test('keeps in-range values, rounded to 0.01', () => {
+    expect(clampSpeed(0.33)).toBe(0.33)
+    expect(clampSpeed(0.3333)).toBe(0.33)
+    expect(clampSpeed(2.5)).toBe(2.5)
+  })
+
+  test('clamps to 0.01×–4×', () => {
+    expect(clampSpeed(0.001)).toBe(0.01)
+    expect(clampSpeed(10)).toBe(4)
+  })
+
+  test('zero and negatives freeze', () => {
+    expect(clampSpeed(0)).toBe(0)
+    expect(clampSpeed(-1)).toBe(0)
+  })
+
+  test('rejects non-numbers', () => {
+    expect(clampSpeed(NaN)).toBeNull()
+    expect(clampSpeed(Infinity)).toBeNull()
+  })
+})
+
+describe('log-scale slider mapping', () => {
+  test('ends map to min and max speed', () => {
+    expect(sliderToSpeed(0)).toBe(0.01)
+    expect(sliderToSpeed(SPEED_SLIDER_STEPS)).toBe(4)
+    expect(speedToSlider(4)).toBe(SPEED_SLIDER_STEPS)
+  })
+
+  test('0x sits at the left end', () => {
+    expect(speedToSlider(0)).toBe(0)
+  })
+
+  test('round-trips presets', () => {
+    for (const s of [0.1, 0.25, 0.5, 1, 2]) {
+      expect(sliderToSpeed(speedToSlider(s))).toBeCloseTo(s, 2)
+    }
+  })
+})
+
+test('formatSpeed drops trailing zeros', () => {
+  expect(formatSpeed(0.5)).toBe('0.5×')
+  expect(formatSpeed(1)).toBe('1×')
+  expect(formatSpeed(0.333)).toBe('0.33×')
+})
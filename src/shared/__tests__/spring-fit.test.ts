@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest'
+import { fitSpring, springPosition, formatSpringConfig } from '../../../entrypoints/content/lib/spring-fit'
+import { parseEasing, type LinearEasing } from '../../../entrypoints/content/lib/easing-parser'
+
+// linear() the way Framer Motion writes a spring: evenly spaced samples
+// over the spring's duration, values rounded to 4 decimals
+function springLinear(stiffness: number, damping: number, durationMs: number, samples = 40): LinearEasing {
+  const omega = Math.sqrt(stiffness)
+  const zeta = damping / (2 * omega)
+  const values = Array.from({ length: samples + 1 }, (_, i) =>
+    parseFloat(springPosition(omega, zeta, (i / samples) * (durationMs / 1000)).toFixed(4)))
+  const parsed = parseEasing(`linear(${values.join(', ')})`)
+  if (parsed.type !== 'linear') throw new Error('expected linear()')
+  return parsed
+}
+
+describe('springPosition', () => {
+  test('starts at 0 and settles at 1', () => {
+    for (const zeta of [0.3, 1, 1.8]) {
+      expect(springPosition(20, zeta, 0)).toBeCloseTo(0, 9)
+      expect(springPosition(20, zeta, 10)).toBeCloseTo(1, 6)
+    }
+  })
+
+  test('only underdamped springs overshoot', () => {
+    const peak = (zeta: number) => Math.max(...Array.from({ length: 200 }, (_, i) => springPosition(20, zeta, i / 100)))
+    expect(peak(0.3)).toBeGreaterThan(1)
+    expect(peak(1)).toBeLessThanOrEqual(1)
+  })
+})
+
+describe('fitSpring', () => {
+  test('recovers stiffness and damping of a bouncy spring', () => {
+    const fit = fitSpring(springLinear(300, 20, 700), 700)!
+    expect(fit.stiffness).toBeCloseTo(300, -1)
+    expect(fit.damping).toBeCloseTo(20, 0)
+    expect(fit.mass).toBe(1)
+    expect(fit.error).toBeLessThan(0.001)
+  })
+
+  test('recovers a critically damped spring', () => {
+    const fit = fitSpring(springLinear(100, 20, 1000), 1000)!
+    expect(fit.dampingRatio).toBeCloseTo(1, 1)
+    expect(fit.framer?.bounce).toBeCloseTo(0, 1)
+  })
+
+  test('maps to Framer Motion duration and bounce', () => {
+    const fit = fitSpring(springLinear(300, 20, 700), 700)!
+    // ζ = 20 / (2·√300) ≈ 0.577 → bounce ≈ 0.42
+    expect(fit.framer?.bounce).toBeCloseTo(0.42, 1)
+    // Framer's settle condition: (ζω/ωd)·e^(−ζω·duration) = 0.001
+    const omega = Math.sqrt(fit.stiffness)
+    const zeta = fit.dampingRatio
+    const envelope = (zeta / Math.sqrt(1 - zeta * zeta)) * Math.exp(-zeta * omega * fit.framer!.duration)
+    expect(envelope).toBeCloseTo(0.001, 4)
+  })
+
+  test('overdamped springs have no duration/bounce form', () => {
+    const fit = fitSpring(springLinear(100, 60, 1500), 1500)!
+    expect(fit.dampingRatio).toBeGreaterThan(1.5)
+    expect(fit.framer).toBeNull()
+    expect(formatSpringConfig(fit)).toMatch(/^\{ type: 'spring', stiffness: [\d.]+, damping: [\d.]+, mass: 1 \}$/)
+  })
+
+  test('reports a large error for curves that are not springs', () => {
+    const steps = parseEasing('linear(0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1)') as LinearEasing
+    expect(fitSpring(steps, 500)!.error).toBeGreaterThan(0.1)
+  })
+
+  test('needs a duration and enough stops', () => {
+    expect(fitSpring(springLinear(300, 20, 700), 0)).toBeNull()
+    expect(fitSpring(parseEasing('linear(0, 1)') as LinearEasing, 500)).toBeNull()
+  })
+})
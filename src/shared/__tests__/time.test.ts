@@ -0,0 +1,98 @@
+import { describe, test, expect } from 'vitest'
+
+// ── Time virtualization math (mirrors inject.ts) ──────────────────────
+// performance.now(), Date.now() and virtual timers all read the same
+// anchored clock as the rAF patch. Simulated here with an explicit real clock.
+
+// Starts untouched at 1x, like inject.ts; `speed` arrives as SET_SPEED at real 0
+function createClockSim(speed: number) {
+  let speedFactor = 1
+  let baseReal: number | null = null
+  let baseVirtual = 0
+  let real = 0
+  const DATE_EPOCH = 1_700_000_000_000 // Date.now() at real === 0
+
+  function virtualNow(r: number): number {
+    if (baseReal === null) return r
+    return baseVirtual + Math.max(0, r - baseReal) * speedFactor
+  }
+
+  function rebase(r: number): void {
+    baseVirtual = virtualNow(r)
+    baseReal = r
+  }
+
+  // Real delay until a timer due at virtual `due` fires; null while frozen
+  function armDelay(due: number): number | null {
+    const remaining = due - virtualNow(real)
+    if (remaining > 0 && speedFactor === 0) return null
+    return remaining > 0 ? remaining / speedFactor : 0
+  }
+
+  function setSpeed(s: number): void {
+    if (baseReal !== null || s !== 1) rebase(real)
+    speedFactor = s
+  }
+
+  setSpeed(speed)
+
+  return {
+    tick(ms: number) { real += ms },
+    setSpeed,
+    step(ms: number) { rebase(real); baseVirtual += ms },
+    performanceNow: () => virtualNow(real),
+    dateNow: () => Math.floor(DATE_EPOCH + real + virtualNow(real) - real),
+    armDelay,
+  }
+}
+
+describe('time virtualization', () => {
+  test('performance.now() advances at the virtual rate', () => {
+    const sim = createClockSim(0.25)
+    sim.tick(1000)
+    expect(sim.performanceNow()).toBeCloseTo(250)
+  })
+
+  test('Date.now() keeps its epoch but shares the virtual offset', () => {
+    const sim = createClockSim(0.5)
+    const before = sim.dateNow()
+    sim.tick(1000)
+    expect(sim.dateNow() - before).toBe(500)
+  })
+
+  test('timer delay stretches by 1/speed', () => {
+    const sim = createClockSim(0.25)
+    expect(sim.armDelay(sim.performanceNow() + 100)).toBeCloseTo(400)
+  })
+
+  test('timers stay pending while frozen, then fire after a step reaches them', () => {
+    const sim = createClockSim(0)
+    const due = sim.performanceNow() + 32
+    expect(sim.armDelay(due)).toBeNull()
+    sim.step(16)
+    expect(sim.armDelay(due)).toBeNull()
+    sim.step(16)
+    expect(sim.armDelay(due)).toBe(0)
+  })
+
+  test('setting a speed before any frame anchors the clock', () => {
+    const sim = createClockSim(1)
+    sim.tick(500)
+    expect(sim.performanceNow()).toBe(500) // untouched: real time
+    sim.setSpeed(0)
+    sim.tick(1000)
+    expect(sim.performanceNow()).toBe(500)
+    expect(sim.armDelay(sim.performanceNow() + 10)).toBeNull() // timers agree: frozen
+    sim.setSpeed(0.5)
+    sim.tick(200)
+    expect(sim.performanceNow()).toBe(600)
+  })
+
+  test('speed change re-arms remaining time at the new rate', () => {
+    const sim = createClockSim(0.5)
+    const due = sim.performanceNow() + 100
+    sim.tick(100) // 50ms virtual elapsed, 50ms remaining
+    sim.setSpeed(0.25)
+    expect(sim.armDelay(due)).toBeCloseTo(200)
+  })
+})
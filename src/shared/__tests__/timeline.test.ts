@@ -0,0 +1,50 @@
+import { describe, test, expect } from 'vitest'
+import { layoutTimeline, axisTicks } from '../../../entrypoints/content/lib/timeline'
+
+const item = (delay: number, duration: number | 'auto' = 300, iterations = 1) => ({ delay, duration, iterations })
+
+describe('layoutTimeline', () => {
+  test('a staggered fade-in gets one bar per item and a uniform stagger', () => {
+    const layout = layoutTimeline([item(0), item(50), item(100), item(150)])
+    expect(layout.bars.map((b) => [b.start, b.end])).toEqual([[0, 300], [50, 350], [100, 400], [150, 450]])
+    expect(layout.total).toBe(450)
+    expect(layout.stagger).toEqual({ min: 50, max: 50 })
+  })
+
+  test('staggers follow start order, not capture order', () => {
+    const layout = layoutTimeline([item(120), item(0), item(40)])
+    expect(layout.staggers).toEqual([40, 80])
+    expect(layout.stagger).toEqual({ min: 40, max: 80 })
+  })
+
+  test('iterations lengthen the bar; infinite ones draw a single iteration', () => {
+    const layout = layoutTimeline([item(0, 200, 3), item(0, 200, Infinity)])
+    expect(layout.bars[0]).toEqual({ start: 0, end: 600, infinite: false })
+    expect(layout.bars[1]).toEqual({ start: 0, end: 200, infinite: true })
+  })
+
+  test('negative delays shift the origin so every bar starts at or after 0', () => {
+    const layout = layoutTimeline([item(-100), item(100)])
+    expect(layout.origin).toBe(-100)
+    expect(layout.bars[0].start).toBe(0)
+    expect(layout.bars[1].start).toBe(200)
+    expect(layout.total).toBe(500)
+  })
+
+  test('a single animation has no stagger; auto duration draws a point', () => {
+    const layout = layoutTimeline([item(20, 'auto')])
+    expect(layout.stagger).toBeNull()
+    expect(layout.bars[0]).toEqual({ start: 20, end: 20, infinite: false })
+  })
+})
+
+describe('axisTicks', () => {
+  test('round steps up to the total', () => {
+    expect(axisTicks(450)).toEqual([0, 200, 400])
+    expect(axisTicks(1000)).toEqual([0, 500, 1000])
+  })
+
+  test('zero length gets a single tick', () => {
+    expect(axisTicks(0)).toEqual([0])
+  })
+})
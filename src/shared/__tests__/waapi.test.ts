@@ -1,11 +1,15 @@
-import { describe, test, expect, beforeEach } from 'vitest'
+import { describe, test, expect, beforeEach, afterEach } from 'vitest'
+import { applyWAAPI, resetWAAPI } from '../../../entrypoints/content/waapi'
+import { SLOOOW_RATE_SYNC_EVENT } from '../types'
 
 // ── Inline the WAAPI logic for unit testing ───────────────────────────
 // We re-implement the WeakMap logic here so it can run in Node (no DOM).
 // The real waapi.ts calls document.getAnimations() which needs a browser.
 
+type MockAnimation = { playbackRate: number; currentTime?: number | null }
+
 function createWAAPIController() {
-  const originalRates = new WeakMap<{ playbackRate: number }, number>()
+  const originalRates = new WeakMap<MockAnimation, number>()
 
   function applyWAAPI(speed: number, animations: { playbackRate: number }[]) {
     animations.forEach((a) => {
@@ -25,11 +29,34 @@ function createWAAPIController() {
     })
   }
 
+  function stepWAAPI(deltaMs: number, animations: MockAnimation[]) {
+    animations.forEach((a) => {
+      if (typeof a.currentTime !== 'number') return
+      const rate = originalRates.get(a) ?? a.playbackRate
+      a.currentTime = a.currentTime + deltaMs * rate
+    })
+  }
+
+  let scrubBase: Map<MockAnimation, number> | null = null
+
+  function seekWAAPI(offsetMs: number, animations: MockAnimation[]) {
+    if (!scrubBase) {
+      scrubBase = new Map()
+      animations.forEach((a) => {
+        if (typeof a.currentTime === 'number') scrubBase!.set(a, a.currentTime)
+      })
+    }
+    scrubBase.forEach((base, a) => {
+      const rate = originalRates.get(a) ?? a.playbackRate
+      a.currentTime = base + offsetMs * rate
+    })
+  }
+
   function hasBaseline(anim: { playbackRate: number }) {
     return originalRates.has(anim)
   }
 
-  return { applyWAAPI, resetWAAPI, hasBaseline }
+  return { applyWAAPI, resetWAAPI, stepWAAPI, seekWAAPI, hasBaseline }
 }
 
 describe('WAAPI rate preservation (WeakMap logic)', () => {
@@ -89,4 +116,258 @@ describe('WAAPI rate preservation (WeakMap logic)', () => {
     expect(a1.playbackRate).toBe(1)
     expect(a2.playbackRate).toBe(3)
   })
+
+  test('0x freezes playbackRate and reset restores it', () => {
+    const anim = { playbackRate: 2 }
+    ctrl.applyWAAPI(0, [anim])
+    expect(anim.playbackRate).toBe(0)
+    ctrl.resetWAAPI([anim])
+    expect(anim.playbackRate).toBe(2)
+  })
+
+  test('step advances currentTime by baseline rate, even while frozen', () => {
+    const anim = { playbackRate: 2, currentTime: 100 }
+    ctrl.applyWAAPI(0, [anim])
+    ctrl.stepWAAPI(16, [anim])
+    expect(anim.currentTime).toBe(132) // 100 + 16 * 2
+    ctrl.stepWAAPI(-16, [anim])
+    expect(anim.currentTime).toBe(100)
+  })
+
+  test('step skips idle animations (currentTime null)', () => {
+    const anim = { playbackRate: 1, currentTime: null }
+    ctrl.stepWAAPI(16, [anim])
+    expect(anim.currentTime).toBeNull()
+  })
+
+  test('seek is absolute from scrub start, so dragging back and forth is lossless', () => {
+    const anim = { playbackRate: 1, currentTime: 500 }
+    ctrl.applyWAAPI(0, [anim])
+    ctrl.seekWAAPI(-300, [anim])
+    expect(anim.currentTime).toBe(200)
+    ctrl.seekWAAPI(1000, [])    // finished animations drop out of getAnimations()…
+    expect(anim.currentTime).toBe(1500)
+    ctrl.seekWAAPI(0, [])       // …but the session still holds them
+    expect(anim.currentTime).toBe(500)
+  })
+})
+
+// ── Per-target application on creation events ─────────────────────────
+// Mirrors animationsOf() + handleNewAnimation() in waapi.ts: an event on an
+// element re-applies the speed to that element's animations only.
+
+describe('WAAPI interception (per-target apply)', () => {
+  type TargetedAnimation = MockAnimation & { effect: { target: object } | null }
+
+  function animationsOf(target: object, subtree: TargetedAnimation[]) {
+    return subtree.filter((a) => a.effect?.target === target)
+  }
+
+  test('new animation on the target is slowed, existing baselines are kept', () => {
+    const ctrl = createWAAPIController()
+    const el = {}
+    const existing: TargetedAnimation = { playbackRate: 2, effect: { target: el } }
+    ctrl.applyWAAPI(0.5, [existing]) // slowed earlier → 1
+    const created: TargetedAnimation = { playbackRate: 1, effect: { target: el } }
+    ctrl.applyWAAPI(0.5, animationsOf(el, [existing, created]))
+    expect(existing.playbackRate).toBe(1)
+    expect(created.playbackRate).toBe(0.5)
+  })
+
+  test('descendant animations are left to their own events', () => {
+    const ctrl = createWAAPIController()
+    const parent = {}
+    const child: TargetedAnimation = { playbackRate: 1, effect: { target: {} } }
+    const own: TargetedAnimation = { playbackRate: 1, effect: { target: parent } }
+    ctrl.applyWAAPI(0.25, animationsOf(parent, [own, child]))
+    expect(own.playbackRate).toBe(0.25)
+    expect(child.playbackRate).toBe(1)
+    expect(ctrl.hasBaseline(child)).toBe(false)
+  })
+})
+
+// ── Page-initiated rate changes (mirrors handleRateChange) ────────────
+// The page's call has already run natively when waapi.ts hears about it;
+// the baseline becomes the page's intent and the effective rate is re-scaled.
+
+describe('WAAPI page rate tracking', () => {
+  function createTracker(speed: number) {
+    const originalRates = new WeakMap<MockAnimation, number>()
+
+    function apply(a: MockAnimation) {
+      if (!originalRates.has(a)) originalRates.set(a, a.playbackRate)
+      a.playbackRate = originalRates.get(a)! * speed
+    }
+
+    function reset(a: MockAnimation) {
+      if (!originalRates.has(a)) return
+      a.playbackRate = originalRates.get(a)!
+      originalRates.delete(a)
+    }
+
+    // Page: anim.playbackRate = rate (native write, then the event)
+    function pageSet(a: MockAnimation, rate: number): number | null {
+      a.playbackRate = rate
+      return handle(a, 'set', rate)
+    }
+
+    // Page: anim.reverse() — natively negates the current (scaled) rate
+    function pageReverse(a: MockAnimation): number | null {
+      a.playbackRate = -a.playbackRate
+      return handle(a, 'reverse')
+    }
+
+    function handle(a: MockAnimation, kind: 'set' | 'reverse' | 'query', rate?: number): number | null {
+      if (!originalRates.has(a)) return null
+      if (kind === 'set') {
+        originalRates.set(a, rate!)
+        a.playbackRate = rate! * speed
+      } else if (kind === 'reverse') {
+        originalRates.set(a, -originalRates.get(a)!)
+      }
+      return originalRates.get(a)!
+    }
+
+    return { apply, reset, pageSet, pageReverse, query: (a: MockAnimation) => handle(a, 'query') }
+  }
+
+  test('a rate set while slowed stays scaled and is reported as intended', () => {
+    const t = createTracker(0.25)
+    const anim: MockAnimation = { playbackRate: 1 }
+    t.apply(anim)
+    expect(t.pageSet(anim, 2)).toBe(2)
+    expect(anim.playbackRate).toBe(0.5)
+  })
+
+  test('reset restores the most recent page rate, not the first baseline', () => {
+    const t = createTracker(0.5)
+    const anim: MockAnimation = { playbackRate: 1 }
+    t.apply(anim)
+    t.pageSet(anim, 3)
+    t.reset(anim)
+    expect(anim.playbackRate).toBe(3)
+  })
+
+  test('reverse flips the intent and keeps the multiplier', () => {
+    const t = createTracker(0.25)
+    const anim: MockAnimation = { playbackRate: 2 }
+    t.apply(anim)
+    expect(t.pageReverse(anim)).toBe(-2)
+    expect(anim.playbackRate).toBe(-0.5)
+    t.reset(anim)
+    expect(anim.playbackRate).toBe(-2)
+  })
+
+  test('unmanaged animations answer null so the getter falls back to native', () => {
+    const t = createTracker(0.25)
+    const anim: MockAnimation = { playbackRate: 1 }
+    expect(t.query(anim)).toBeNull()
+    expect(t.pageSet(anim, 2)).toBeNull()
+    expect(anim.playbackRate).toBe(2)
+  })
+})
+
+// ── Rate sync (real waapi.ts) ─────────────────────────────────────────
+// inject.ts caches intended rates, "not managed" included, until waapi.ts
+// says baselines changed. document is a bare EventTarget here.
+
+describe('WAAPI rate sync', () => {
+  let syncs = 0
+  const count = () => { syncs++ }
+
+  beforeEach(() => {
+    syncs = 0
+    const doc = new EventTarget()
+    doc.addEventListener(SLOOOW_RATE_SYNC_EVENT, count)
+    ;(globalThis as any).document = doc
+  })
+
+  afterEach(() => {
+    delete (globalThis as any).document
+  })
+
+  test('announced when a baseline is captured, not on re-apply', () => {
+    const anim = { playbackRate: 1, effect: null } as unknown as Animation
+    applyWAAPI(0.5, [anim])
+    expect(syncs).toBe(1)
+    applyWAAPI(0.25, [anim])
+    expect(syncs).toBe(1)
+  })
+
+  test('announced when a baseline is released', () => {
+    const anim = { playbackRate: 1, effect: null } as unknown as Animation
+    applyWAAPI(0.5, [anim])
+    resetWAAPI([anim])
+    expect(syncs).toBe(2)
+    resetWAAPI([anim])
+    expect(syncs).toBe(2)
+  })
+})
+
+// ── Scoped slow-motion (mirrors setScope / inScope) ───────────────────
+// Only animations whose target sits inside the scope root are slowed;
+// changing the scope resets everything and re-applies inside the new one.
+
+describe('WAAPI scope', () => {
+  type Node = { parent: Node | null }
+  type ScopedAnimation = MockAnimation & { target: Node }
+
+  function contains(root: Node, node: Node): boolean {
+    for (let n: Node | null = node; n; n = n.parent) if (n === root) return true
+    return false
+  }
+
+  function createScoped() {
+    const ctrl = createWAAPIController()
+    let scope: Node | null = null
+    const inScope = (a: ScopedAnimation) => !scope || contains(scope, a.target)
+    return {
+      ...ctrl,
+      setScope(root: Node | null, all: ScopedAnimation[], speed: number) {
+        scope = root
+        ctrl.resetWAAPI(all)
+        ctrl.applyWAAPI(speed, all.filter(inScope))
+      },
+      apply(speed: number, created: ScopedAnimation[]) {
+        ctrl.applyWAAPI(speed, created.filter(inScope))
+      },
+    }
+  }
+
+  const page: Node = { parent: null }
+  const carousel: Node = { parent: page }
+  const card: Node = { parent: page }
+  const cardIcon: Node = { parent: card }
+
+  test('only animations inside the scope are slowed', () => {
+    const s = createScoped()
+    const slide: ScopedAnimation = { playbackRate: 1, target: carousel }
+    const icon: ScopedAnimation = { playbackRate: 1, target: cardIcon }
+    s.setScope(card, [slide, icon], 0.25)
+    expect(icon.playbackRate).toBe(0.25)
+    expect(slide.playbackRate).toBe(1)
+    expect(s.hasBaseline(slide)).toBe(false)
+  })
+
+  test('new animations outside the scope are ignored', () => {
+    const s = createScoped()
+    s.setScope(card, [], 0.5)
+    const outside: ScopedAnimation = { playbackRate: 1, target: carousel }
+    const inside: ScopedAnimation = { playbackRate: 1, target: card }
+    s.apply(0.5, [outside, inside])
+    expect(outside.playbackRate).toBe(1)
+    expect(inside.playbackRate).toBe(0.5)
+  })
+
+  test('moving the scope restores animations that left it', () => {
+    const s = createScoped()
+    const slide: ScopedAnimation = { playbackRate: 2, target: carousel }
+    const icon: ScopedAnimation = { playbackRate: 1, target: cardIcon }
+    s.setScope(card, [slide, icon], 0.5)
+    s.setScope(carousel, [slide, icon], 0.5)
+    expect(icon.playbackRate).toBe(1)
+    expect(slide.playbackRate).toBe(1)
+    s.setScope(null, [slide, icon], 0.5)
+    expect(icon.playbackRate).toBe(0.5)
+  })
 })
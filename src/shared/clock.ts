@@ -0,0 +1,40 @@
+// Anchored virtual clock — the same model inject.ts serves to rAF callbacks
+// and performance.now(), for layers that have to drive a timeline themselves
+// from the isolated world (SMIL). Pure — shared by content scripts and tests.
+//
+// virtual = baseVirtual + (real - baseReal) * speed. Speed changes and steps
+// re-anchor instead of resetting, so 0x freezes exactly where time stood and
+// resuming never jumps.
+
+export interface VirtualClock {
+  now(): number              // virtual ms
+  setSpeed(speed: number): void
+  step(deltaMs: number): void // moves virtual time; the usual way forward at 0x
+}
+
+export function createVirtualClock(realNow: () => number, speed = 1): VirtualClock {
+  let speedFactor = speed
+  let baseReal = realNow()
+  let baseVirtual = baseReal
+
+  function now(): number {
+    return baseVirtual + Math.max(0, realNow() - baseReal) * speedFactor
+  }
+
+  function rebase(): void {
+    baseVirtual = now()
+    baseReal = realNow()
+  }
+
+  return {
+    now,
+    setSpeed(next) {
+      rebase()
+      speedFactor = next
+    },
+    step(deltaMs) {
+      rebase()
+      baseVirtual += deltaMs
+    },
+  }
+}
@@ -0,0 +1,34 @@
+// Speed normalization and the log-scale mapping used by the toolbar slider.
+// Pure — shared by the content script and unit tests.
+
+import { SLOOOW_MIN_SPEED, SLOOOW_MAX_SPEED, type SlooowSpeed } from './types'
+
+// Clamps to the supported range and rounds to 0.01×. Anything at or below
+// zero means "freeze". Returns null for input that isn't a number at all.
+export function clampSpeed(value: number): SlooowSpeed | null {
+  if (!Number.isFinite(value)) return null
+  if (value <= 0) return 0
+  const clamped = Math.min(SLOOOW_MAX_SPEED, Math.max(SLOOOW_MIN_SPEED, value))
+  return Math.round(clamped * 100) / 100
+}
+
+// Slider positions are logarithmic so 0.01×–0.1× gets as much travel as 1×–4×
+export const SPEED_SLIDER_STEPS = 1000
+
+const LOG_SPAN = Math.log(SLOOOW_MAX_SPEED / SLOOOW_MIN_SPEED)
+
+export function speedToSlider(speed: SlooowSpeed): number {
+  if (speed <= SLOOOW_MIN_SPEED) return 0
+  const t = Math.log(speed / SLOOOW_MIN_SPEED) / LOG_SPAN
+  return Math.round(Math.min(1, t) * SPEED_SLIDER_STEPS)
+}
+
+export function sliderToSpeed(position: number): SlooowSpeed {
+  const t = Math.min(1, Math.max(0, position / SPEED_SLIDER_STEPS))
+  return clampSpeed(SLOOOW_MIN_SPEED * Math.exp(t * LOG_SPAN))!
+}
+
+// "0.25×" style label — drops trailing zeros
+export function formatSpeed(speed: SlooowSpeed): string {
+  return `${parseFloat(speed.toFixed(2))}×`
+}
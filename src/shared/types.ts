@@ -1,19 +1,105 @@
-export type SlooowSpeed = 0.1 | 0.25 | 0.5 | 1
+// Any rate in [SLOOOW_MIN_SPEED, SLOOOW_MAX_SPEED], or 0 to freeze every
+// layer on the current frame. See clampSpeed() in ./speed.
+export type SlooowSpeed = number
 
-export const SLOOOW_SPEEDS: SlooowSpeed[] = [1, 0.5, 0.25, 0.1]
+export const SLOOOW_MIN_SPEED = 0.01
+export const SLOOOW_MAX_SPEED = 4
+
+// Presets shown as tabs; the slider and numeric input cover everything in between
+export const SLOOOW_SPEEDS: SlooowSpeed[] = [1, 0.5, 0.25, 0.1, 0]
+
+// Step sizes (ms of page time) offered while frozen — one 60fps frame, then coarser
+export const SLOOOW_STEP_SIZES = [16, 50, 100] as const
+
+// Scrubber reach (ms of page time) either side of where scrubbing began
+export const SLOOOW_SCRUB_RANGE = 3000
+
+// How <video>/<audio> sound while slowed
+export interface MediaOptions {
+  mute: boolean          // silence media while slowed
+  preservePitch: boolean // time-stretch audio instead of letting the pitch drop
+}
+
+export const DEFAULT_MEDIA_OPTIONS: MediaOptions = { mute: false, preservePitch: true }
 
 export const SLOOOW_TAG = '__slooow__'
 
+// DOM event inject.ts fires on an element right after the page animates it
+// (Element.prototype.animate, new Animation().play()). DOM events cross the
+// MAIN/ISOLATED boundary, so waapi.ts can slow the animation before its first frame.
+export const SLOOOW_ANIMATION_EVENT = 'slooow:animation'
+
+// Page-initiated rate changes, as a synchronous round trip on the target
+// element. inject.ts fires SLOOOW_RATE_EVENT after the page sets playbackRate,
+// calls updatePlaybackRate() or reverse(), or reads playbackRate while slowed;
+// waapi.ts answers with SLOOOW_RATE_RESULT_EVENT before dispatch returns.
+// Animations are identified by index among the target's own animations —
+// both worlds see the same getAnimations() order.
+export const SLOOOW_RATE_EVENT = 'slooow:rate'
+export const SLOOOW_RATE_RESULT_EVENT = 'slooow:rate-result'
+// Fired on document when waapi.ts starts or stops managing animations, so
+// inject.ts drops the answers it cached — including "not managed" ones.
+export const SLOOOW_RATE_SYNC_EVENT = 'slooow:rate-sync'
+
+export interface RateChangeDetail {
+  index: number
+  kind: 'set' | 'update' | 'reverse' | 'query'
+  rate?: number // page's requested rate for 'set' / 'update'
+}
+
+export interface RateResultDetail {
+  intended: number | null // the page's rate, or null when Slooow doesn't manage it
+}
+
 // Messages flowing over window.postMessage (cross-world, same tab)
 export type MainWorldInbound =
   | { tag: typeof SLOOOW_TAG; type: 'SET_SPEED'; speed: number; token: string }
+  | { tag: typeof SLOOOW_TAG; type: 'STEP'; deltaMs: number; token: string }
+  | { tag: typeof SLOOOW_TAG; type: 'SET_TIME_VIRTUALIZATION'; enabled: boolean; token: string }
 
 export type MainWorldOutbound =
   | { tag: typeof SLOOOW_TAG; type: 'SLOOOW_STATUS_REPORT'; token: string; rafIntercepted: boolean; gsapDetected: boolean }
 
+// Commands the top frame relays to every child frame (via the background SW)
+export type FrameCommand =
+  | { kind: 'sync'; speed: SlooowSpeed | null; timeVirtualized: boolean; media: MediaOptions }
+  | { kind: 'step'; deltaMs: number }
+  | { kind: 'scrub'; offsetMs: number }
+
+// What drives a library's timing — decides whether a shared clock already
+// slows it: 'raf' reads rAF timestamps (Layer 3), 'date' reads Date.now() /
+// performance.now() (time virtualization), 'own' is reached by neither.
+export type AdapterClock = 'raf' | 'date' | 'own'
+
+// One detected animation library, as listed in the toolbar status
+export interface AdapterStatus {
+  id: string
+  name: string
+  applied: boolean                  // its own speed control is scaled right now
+  coveredBy: 'raf' | 'date' | null  // slowed through a shared clock instead
+  detail?: string                   // e.g. "3 players"
+}
+
+// What a child frame reports back to the top frame
+export interface FrameStatus {
+  rafIntercepted: boolean
+  adapters: AdapterStatus[]
+  animationCount: number
+  mediaCount: number
+  smilCount: number   // outermost <svg>s with SMIL animations
+}
+
 // Messages flowing over chrome.runtime (content script ↔ background SW)
 export type ContentToBackground =
   | { type: 'TOGGLE_TOOLBAR' }
+  | { type: 'FRAME_BROADCAST'; command: FrameCommand; frameId?: number } // top → children (all, or one)
+  | { type: 'FRAME_HELLO' }                                              // child → top: send me current state
+  | { type: 'FRAME_STATUS'; status: FrameStatus }                        // child → top
+  | { type: 'FRAME_GOODBYE' }                                            // child → top: unloading, drop my status
 
 export type BackgroundToContent =
   | { type: 'TOGGLE_TOOLBAR' }
+  | { type: 'FRAME_COMMAND'; command: FrameCommand }
+  | { type: 'FRAME_HELLO'; frameId: number }
+  | { type: 'FRAME_STATUS'; frameId: number; status: FrameStatus }
+  | { type: 'FRAME_GOODBYE'; frameId: number }